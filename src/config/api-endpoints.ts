@@ -0,0 +1,14 @@
+/**
+ * Base URLs of the eLocal and Ringba APIs.
+ * Overridable with ELOCAL_BASE_URL / RINGBA_BASE_URL, e.g. to point a run at the local stub server
+ * (`npm run mock:apis`). Read on every request so values from .env files loaded after import apply.
+ */
+
+export const DEFAULT_ELOCAL_BASE_URL = 'https://apis.elocal.com/affiliates/v2/campaign-results';
+export const DEFAULT_RINGBA_BASE_URL = 'https://api.ringba.com/v2';
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+export const getElocalBaseUrl = (): string => trimSlash(process.env.ELOCAL_BASE_URL || DEFAULT_ELOCAL_BASE_URL);
+
+export const getRingbaBaseUrl = (): string => trimSlash(process.env.RINGBA_BASE_URL || DEFAULT_RINGBA_BASE_URL);
@@ -0,0 +1,215 @@
+// Campaign Registry
+// Single source of truth for the eLocal campaigns we ingest and how they link to Ringba.
+// Each entry maps an eLocal campaign UUID to a category key, its Ringba targets,
+// whether per-call adjustments apply and the matching tolerances used by the sync services.
+//
+// The built-in registry below can be replaced without a code change by pointing
+// CAMPAIGN_REGISTRY_FILE at a JSON file holding an array of CampaignConfig entries.
+// Ringba targets found by target discovery (ringba_targets table) and mapped to a category
+// there are added on top of each campaign's ringbaTargets via registerDiscoveredTargets.
+
+import { readFileSync } from 'fs';
+import type { Category, MatchProfileOverrides, MatchService } from '../types/index.js';
+
+/**
+ * Tolerances of the shared match profile (src/utils/call-matching.ts getMatchProfile). The cost sync,
+ * original sync and eLocal fetch upsert all link calls with them; a service only deviates through
+ * serviceOverrides.
+ */
+export interface CampaignMatchingConfig {
+  /** Max minutes between eLocal and Ringba call start on the same (UTC) day */
+  windowMinutes: number;
+  /**
+   * Max minutes between call starts when the calls fall on adjacent UTC days; wider than
+   * windowMinutes to absorb stored times that were shifted by a timezone
+   */
+  adjacentDayWindowMinutes: number;
+  /** Max seconds between eLocal and Ringba call duration when both are known */
+  durationToleranceSeconds: number;
+  /** Payout difference treated as equal when scoring a match */
+  payoutTolerance: number;
+  /**
+   * Per-service exceptions to the shared profile, e.g. { "elocal_upsert": { "windowMinutes": 10 } }.
+   * None by default, so every service accepts and rejects the same pairs.
+   */
+  serviceOverrides?: Partial<Record<MatchService, MatchProfileOverrides>>;
+}
+
+export interface RingbaTargetConfig {
+  id: string;
+  name: string;
+}
+
+export interface CampaignConfig {
+  /** Category key stored in ringba_call_data.category (e.g. 'STATIC') */
+  category: Category;
+  /** eLocal campaign UUID (campaign-results/{uuid}/calls.json) */
+  campaignUuid: string;
+  description: string;
+  enabled: boolean;
+  /** Ringba targets whose calls belong to this campaign */
+  ringbaTargets: RingbaTargetConfig[];
+  /** Whether eLocal per-call adjustments are ingested for this campaign */
+  includeAdjustments: boolean;
+  /**
+   * ILIKE patterns on ringba_call_data."targetName" used to keep one campaign's eLocal fetch
+   * from claiming another campaign's rows. Rows with NULL targetName always match.
+   */
+  targetNameFilter: { include: string[]; exclude: string[] };
+  matching: CampaignMatchingConfig;
+}
+
+export const DEFAULT_MATCHING_CONFIG: CampaignMatchingConfig = {
+  windowMinutes: 120,
+  adjacentDayWindowMinutes: 24 * 60,
+  durationToleranceSeconds: 30,
+  payoutTolerance: 0.01,
+};
+
+// Registry files written before the shared profile name a window per service; keep honouring them
+// as service overrides
+const LEGACY_WINDOW_KEYS: Record<string, MatchService> = {
+  costSyncWindowMinutes: 'cost_sync',
+  originalSyncWindowMinutes: 'original_sync',
+  upsertWindowMinutes: 'elocal_upsert',
+};
+
+const toMatchingConfig = (matching: Record<string, unknown> = {}): CampaignMatchingConfig => {
+  const { serviceOverrides = {}, ...rest } = matching as Partial<CampaignMatchingConfig> & Record<string, unknown>;
+  const overrides: Partial<Record<MatchService, MatchProfileOverrides>> = { ...serviceOverrides };
+  const tolerances: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    const service = LEGACY_WINDOW_KEYS[key];
+    if (service) overrides[service] = { windowMinutes: Number(value), ...overrides[service] };
+    else tolerances[key] = value;
+  }
+  return { ...DEFAULT_MATCHING_CONFIG, ...tolerances, serviceOverrides: overrides };
+};
+
+// Built-in registry
+export const DEFAULT_CAMPAIGN_REGISTRY: CampaignConfig[] = [
+  {
+    category: 'STATIC',
+    campaignUuid: 'dce224a6-f813-4cab-a8c6-972c5a1520ab',
+    description: 'Appliance repair - static line',
+    enabled: true,
+    ringbaTargets: [{ id: 'TA48aa3e3f5a0544af8549703f76a24faa', name: 'Elocal - Appliance repair - Static Line' }],
+    includeAdjustments: true,
+    targetNameFilter: { include: ['%static%'], exclude: [] },
+    matching: { ...DEFAULT_MATCHING_CONFIG },
+  },
+  {
+    category: 'API',
+    campaignUuid: '4534924c-f52b-4124-981b-9d2670b2af3e',
+    description: 'Appliance repair - API',
+    enabled: true,
+    ringbaTargets: [{ id: 'PI1175ac62aa1c4748b21216666b398135', name: 'Elocal - Appliance Repair' }],
+    includeAdjustments: false,
+    targetNameFilter: { include: ['%appliance repair%'], exclude: ['%static%'] },
+    matching: { ...DEFAULT_MATCHING_CONFIG },
+  },
+];
+
+let cachedRegistry: CampaignConfig[] | null = null;
+
+/** Enabled, category-mapped targets from ringba_targets (see registerDiscoveredTargets) */
+let discoveredTargets: Array<RingbaTargetConfig & { category: Category }> = [];
+
+const loadRegistryFile = (path: string): CampaignConfig[] => {
+  const parsed = JSON.parse(readFileSync(path, 'utf8')) as Array<Partial<CampaignConfig>>;
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Campaign registry ${path} must contain a JSON array`);
+  }
+  return parsed.map((entry, i) => {
+    if (!entry.category || !entry.campaignUuid) {
+      throw new Error(`Campaign registry ${path}: entry ${i} needs category and campaignUuid`);
+    }
+    return {
+      description: '',
+      enabled: true,
+      ringbaTargets: [],
+      includeAdjustments: false,
+      targetNameFilter: { include: ['%'], exclude: [] },
+      ...entry,
+      matching: toMatchingConfig(entry.matching as Record<string, unknown> | undefined),
+    } as CampaignConfig;
+  });
+};
+
+/**
+ * All registered campaigns (enabled and disabled).
+ */
+export const getCampaignRegistry = (): CampaignConfig[] => {
+  if (!cachedRegistry) {
+    const file = process.env.CAMPAIGN_REGISTRY_FILE;
+    cachedRegistry = file ? loadRegistryFile(file) : DEFAULT_CAMPAIGN_REGISTRY;
+  }
+  return cachedRegistry;
+};
+
+/**
+ * Enabled campaigns only.
+ */
+export const getEnabledCampaigns = (): CampaignConfig[] => getCampaignRegistry().filter((c) => c.enabled);
+
+/**
+ * Look up a campaign by category key; throws for unknown categories.
+ */
+export const getCampaign = (category: Category): CampaignConfig => {
+  const campaign = getCampaignRegistry().find((c) => c.category === category);
+  if (!campaign) {
+    const known = getCampaignRegistry().map((c) => c.category).join(', ');
+    throw new Error(`Unknown campaign category: ${category} (known: ${known})`);
+  }
+  return campaign;
+};
+
+export const isKnownCategory = (category: string): boolean =>
+  getCampaignRegistry().some((c) => c.category === category);
+
+/**
+ * Matching tolerances for a category, falling back to defaults for unknown categories.
+ */
+export const getMatchingConfig = (category: Category | null | undefined): CampaignMatchingConfig =>
+  getCampaignRegistry().find((c) => c.category === category)?.matching ?? DEFAULT_MATCHING_CONFIG;
+
+/**
+ * Add targets mapped to a category in ringba_targets. Mappings to unknown categories are ignored;
+ * registry targets keep their registry category.
+ */
+export const registerDiscoveredTargets = (
+  targets: Array<{ id: string; name: string; category: Category | null; enabled: boolean }>
+): void => {
+  discoveredTargets = targets
+    .filter((t) => t.enabled && t.category && isKnownCategory(t.category))
+    .map((t) => ({ id: t.id, name: t.name, category: t.category as Category }));
+};
+
+/**
+ * Ringba target ID -> target name for all enabled campaigns, including discovered targets.
+ */
+export const getRingbaTargets = (): Record<string, string> => {
+  const targets: Record<string, string> = {};
+  const enabled = getEnabledCampaigns();
+  for (const target of discoveredTargets) {
+    if (enabled.some((c) => c.category === target.category)) {
+      targets[target.id] = target.name;
+    }
+  }
+  for (const campaign of enabled) {
+    for (const target of campaign.ringbaTargets) {
+      targets[target.id] = target.name;
+    }
+  }
+  return targets;
+};
+
+/**
+ * Category for a Ringba target ID, or null when neither the registry nor ringba_targets maps it.
+ */
+export const getCategoryForTarget = (targetId: string | null | undefined): Category | null => {
+  if (!targetId) return null;
+  const campaign = getCampaignRegistry().find((c) => c.ringbaTargets.some((t) => t.id === targetId));
+  if (campaign) return campaign.category;
+  return discoveredTargets.find((t) => t.id === targetId)?.category ?? null;
+};
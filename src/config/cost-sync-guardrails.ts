@@ -0,0 +1,114 @@
+// Cost Sync Guardrails
+// Limits checked on the overrides a Ringba cost sync run is about to push (or queue). If any limit
+// is exceeded the run stops before Step 4 with status 'blocked' and the violations listed; it only
+// proceeds when started with the explicit override (overrideGuardrails / --override-guardrails).
+//
+// Limits come from the environment; a numeric limit of 0 disables it:
+//   RINGBA_GUARDRAIL_MAX_CALL_DELTA      max $ change of a single call's payout or revenue (default 100)
+//   RINGBA_GUARDRAIL_MAX_CHANGED_SHARE   max share of matched calls changed in one run (default 0.5),
+//                                        checked from RINGBA_GUARDRAIL_MIN_CALLS matched calls (default 20)
+//   RINGBA_GUARDRAIL_MAX_DAILY_DELTA     max total $ change per call day (default 2500), including what
+//                                        earlier runs already pushed for that day (ringba_override_ledger)
+//   RINGBA_GUARDRAIL_BLOCK_ZERO_DROPS    block overrides dropping a non-zero amount to $0 (default true)
+
+import type {
+  RingbaPaymentUpdate,
+  CostSyncGuardrailLimits,
+  CostSyncGuardrailViolation,
+} from '../types/ringba-cost-sync.js';
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const getGuardrailLimits = (): CostSyncGuardrailLimits => ({
+  maxCallDelta: numberFromEnv('RINGBA_GUARDRAIL_MAX_CALL_DELTA', 100),
+  maxChangedShare: numberFromEnv('RINGBA_GUARDRAIL_MAX_CHANGED_SHARE', 0.5),
+  minCallsForShare: numberFromEnv('RINGBA_GUARDRAIL_MIN_CALLS', 20),
+  maxDailyDelta: numberFromEnv('RINGBA_GUARDRAIL_MAX_DAILY_DELTA', 2500),
+  blockZeroDrops: process.env.RINGBA_GUARDRAIL_BLOCK_ZERO_DROPS !== 'false',
+});
+
+// A call's delta is the larger of its payout and revenue change, so the usual override that moves
+// both by the same amount counts once.
+const callDelta = (update: RingbaPaymentUpdate): number =>
+  Math.max(Math.abs(update.newPayout - update.currentPayout), Math.abs(update.newRevenue - update.currentRevenue));
+
+const sample = (ids: string[]): string => (ids.length > 5 ? `${ids.slice(0, 5).join(', ')}, ...` : ids.join(', '));
+
+/**
+ * Check a run's overrides against the limits.
+ * matchedCalls = calls matched in the run (changed or not); dayOf = call day (YYYY-MM-DD) of an update;
+ * pushedByDay = $ already pushed per call day by earlier runs.
+ */
+export const checkGuardrails = (
+  updates: RingbaPaymentUpdate[],
+  matchedCalls: number,
+  dayOf: (update: RingbaPaymentUpdate) => string,
+  pushedByDay: Map<string, number> = new Map(),
+  limits: CostSyncGuardrailLimits = getGuardrailLimits()
+): CostSyncGuardrailViolation[] => {
+  const violations: CostSyncGuardrailViolation[] = [];
+
+  if (limits.maxCallDelta > 0) {
+    const over = updates.filter((u) => callDelta(u) > limits.maxCallDelta + 0.005);
+    if (over.length > 0) {
+      const ids = over.map((u) => u.ringbaInboundCallId);
+      const largest = Math.max(...over.map(callDelta));
+      violations.push({
+        rule: 'max_call_delta',
+        message: `${over.length} call(s) change by more than $${limits.maxCallDelta.toFixed(2)} (largest $${largest.toFixed(2)}): ${sample(ids)}`,
+        ringbaInboundCallIds: ids,
+      });
+    }
+  }
+
+  if (limits.maxChangedShare > 0 && matchedCalls >= limits.minCallsForShare && matchedCalls > 0) {
+    const share = updates.length / matchedCalls;
+    if (share > limits.maxChangedShare) {
+      violations.push({
+        rule: 'max_changed_share',
+        message: `${updates.length} of ${matchedCalls} matched calls (${(share * 100).toFixed(1)}%) would change; limit ${(limits.maxChangedShare * 100).toFixed(1)}%`,
+      });
+    }
+  }
+
+  if (limits.maxDailyDelta > 0) {
+    const byDay = new Map<string, number>();
+    for (const update of updates) {
+      const day = dayOf(update);
+      byDay.set(day, (byDay.get(day) || 0) + callDelta(update));
+    }
+    for (const [day, delta] of byDay) {
+      const pushed = pushedByDay.get(day) || 0;
+      const total = pushed + delta;
+      if (total > limits.maxDailyDelta + 0.005) {
+        violations.push({
+          rule: 'max_daily_delta',
+          message:
+            `Calls on ${day} change by $${total.toFixed(2)} in total ($${delta.toFixed(2)} in this run, ` +
+            `$${pushed.toFixed(2)} already pushed); limit $${limits.maxDailyDelta.toFixed(2)}`,
+        });
+      }
+    }
+  }
+
+  if (limits.blockZeroDrops) {
+    const drops = updates.filter(
+      (u) => (u.currentPayout > 0 && u.newPayout === 0) || (u.currentRevenue > 0 && u.newRevenue === 0)
+    );
+    if (drops.length > 0) {
+      const ids = drops.map((u) => u.ringbaInboundCallId);
+      violations.push({
+        rule: 'zero_drop',
+        message: `${drops.length} call(s) would drop to $0: ${sample(ids)}`,
+        ringbaInboundCallIds: ids,
+      });
+    }
+  }
+
+  return violations;
+};
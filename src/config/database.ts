@@ -1,4 +1,4 @@
-import { neon } from '@neondatabase/serverless';
+import { neon, neonConfig } from '@neondatabase/serverless';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
@@ -32,6 +32,10 @@ export const getDatabaseConfig = (): DatabaseConfig => {
 
 export const createNeonClient = () => {
   const config = getDatabaseConfig();
+  // Local Postgres behind a Neon HTTP proxy (e.g. local-neon-http-proxy), for offline runs
+  if (process.env.NEON_FETCH_ENDPOINT) {
+    neonConfig.fetchEndpoint = process.env.NEON_FETCH_ENDPOINT;
+  }
   return neon(config.connectionString, {
     fetchOptions: {
       cache: 'no-store',
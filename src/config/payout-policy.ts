@@ -0,0 +1,133 @@
+// Payout Policy
+// Decides what the Ringba cost sync writes as conversion amount (revenue) and payout for a matched
+// call, given the eLocal payout. Rules are matched on (category, Ringba target, publisher); the
+// first matching rule wins and the built-in default rule (eLocal payout for both) applies when none
+// does. The rule id is recorded with every override (ringba_override_ledger.policy_rule,
+// pending_payment_overrides.policy_rule).
+//
+// Rules are read from the JSON file at PAYOUT_POLICY_FILE (an array of PayoutPolicyRule), e.g.
+//   [
+//     { "id": "acme-80pct", "match": { "publisher": "Acme Media" },
+//       "revenue": { "type": "elocal" }, "payout": { "type": "elocal", "multiplier": 0.8 } },
+//     { "id": "api-bounty", "match": { "category": "API" },
+//       "revenue": { "type": "elocal" }, "payout": { "type": "fixed", "amount": 12 } },
+//     { "id": "static-revenue-only", "match": { "category": "STATIC" },
+//       "revenue": { "type": "elocal" }, "payout": { "type": "keep" } }
+//   ]
+
+import { readFileSync } from 'fs';
+
+/**
+ * How one amount is computed:
+ * - elocal: eLocal payout × multiplier (default 1) + offset (default 0)
+ * - fixed: a fixed amount (bounty) when the eLocal payout is above zero, else 0
+ * - keep: leave the current Ringba amount as it is (e.g. revenue-only adjustments)
+ */
+export type PayoutFormula =
+  | { type: 'elocal'; multiplier?: number; offset?: number }
+  | { type: 'fixed'; amount: number }
+  | { type: 'keep' };
+
+export interface PayoutPolicyRule {
+  /** Recorded with each override; must be unique */
+  id: string;
+  description?: string;
+  /** All given fields must match (publisher case-insensitively); an empty match applies to every call */
+  match: { category?: string; targetId?: string; publisher?: string };
+  /** Ringba conversion amount */
+  revenue: PayoutFormula;
+  /** Ringba payout amount */
+  payout: PayoutFormula;
+}
+
+export interface PayoutPolicyInput {
+  category: string | null;
+  targetId: string | null;
+  publisher: string | null;
+}
+
+export const DEFAULT_PAYOUT_RULE: PayoutPolicyRule = {
+  id: 'default',
+  description: 'eLocal payout as both conversion amount and payout',
+  match: {},
+  revenue: { type: 'elocal' },
+  payout: { type: 'elocal' },
+};
+
+let cachedRules: PayoutPolicyRule[] | null = null;
+
+const validFormula = (formula: PayoutFormula | undefined): boolean => {
+  if (!formula) return false;
+  if (formula.type === 'keep') return true;
+  if (formula.type === 'fixed') return Number.isFinite(formula.amount);
+  if (formula.type === 'elocal') {
+    return (formula.multiplier ?? 1) >= 0 && Number.isFinite(formula.multiplier ?? 1) && Number.isFinite(formula.offset ?? 0);
+  }
+  return false;
+};
+
+const loadPolicyFile = (path: string): PayoutPolicyRule[] => {
+  const parsed = JSON.parse(readFileSync(path, 'utf8')) as Array<Partial<PayoutPolicyRule>>;
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Payout policy ${path} must contain a JSON array`);
+  }
+  const ids = new Set<string>();
+  return parsed.map((rule, i) => {
+    if (!rule.id || ids.has(rule.id)) {
+      throw new Error(`Payout policy ${path}: rule ${i} needs a unique id`);
+    }
+    if (!validFormula(rule.revenue) || !validFormula(rule.payout)) {
+      throw new Error(`Payout policy ${path}: rule ${rule.id} needs valid revenue and payout formulas`);
+    }
+    ids.add(rule.id);
+    return { ...rule, match: rule.match ?? {} } as PayoutPolicyRule;
+  });
+};
+
+/**
+ * Configured rules in evaluation order (without the built-in default).
+ */
+export const getPayoutPolicyRules = (): PayoutPolicyRule[] => {
+  if (!cachedRules) {
+    const file = process.env.PAYOUT_POLICY_FILE;
+    cachedRules = file ? loadPolicyFile(file) : [];
+  }
+  return cachedRules;
+};
+
+const ruleMatches = (rule: PayoutPolicyRule, input: PayoutPolicyInput): boolean => {
+  const { category, targetId, publisher } = rule.match;
+  if (category && category !== input.category) return false;
+  if (targetId && targetId !== input.targetId) return false;
+  if (publisher && publisher.toLowerCase() !== (input.publisher ?? '').toLowerCase()) return false;
+  return true;
+};
+
+/**
+ * First configured rule matching the call, else DEFAULT_PAYOUT_RULE.
+ */
+export const resolvePayoutRule = (input: PayoutPolicyInput): PayoutPolicyRule =>
+  getPayoutPolicyRules().find((rule) => ruleMatches(rule, input)) ?? DEFAULT_PAYOUT_RULE;
+
+const evaluate = (formula: PayoutFormula, elocalPayout: number, current: number): number => {
+  switch (formula.type) {
+    case 'keep':
+      return current;
+    case 'fixed':
+      return elocalPayout > 0 ? formula.amount : 0;
+    case 'elocal':
+      return Math.round((elocalPayout * (formula.multiplier ?? 1) + (formula.offset ?? 0)) * 100) / 100;
+  }
+};
+
+/**
+ * New Ringba amounts for a call under a rule. current = the call's amounts in Ringba now.
+ */
+export const applyPayoutRule = (
+  rule: PayoutPolicyRule,
+  elocalPayout: number,
+  current: { payout: number; revenue: number }
+): { newPayout: number; newRevenue: number } => ({
+  newPayout: evaluate(rule.payout, elocalPayout, current.payout),
+  newRevenue: evaluate(rule.revenue, elocalPayout, current.revenue),
+});
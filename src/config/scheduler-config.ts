@@ -2,16 +2,22 @@
 // Defines which services to run and in what order
 // Each service runs one after another (sequential execution)
 
+import type { Category } from '../types/index.js';
+
 export interface ServiceConfig {
   name: string;
   type: 'elocal-fetch' | 'ringba-original-sync' | 'ringba-cost-sync';
   enabled: boolean;
-  category?: 'STATIC' | 'API' | null; // null means all categories
+  category?: Category | null; // category key from the campaign registry; null means all categories
   description: string;
   /** How many days back to fetch (for historical syncs) */
   daysBack?: number;
   /** Whether to sync current day only (for cost sync) */
   currentDayOnly?: boolean;
+  /** elocal-fetch only: compare with the database and report changes without writing */
+  dryRun?: boolean;
+  /** elocal-fetch dry runs: write the diff here (.csv or .json); the category is added before the extension */
+  diffOutputFile?: string;
 }
 
 export interface ScheduleConfig {
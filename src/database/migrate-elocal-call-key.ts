@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+/**
+ * Migration: stable eLocal call identity on ringba_call_data.
+ *
+ * - Adds elocal_call_key ('elocal:<id>' or 'fp:<fingerprint>:<n>', see processCampaignCalls)
+ *   with a unique index; insertCallsBatch upserts on it.
+ * - Drops the (caller_id, call_timestamp) unique constraint. Two calls from the same caller in the
+ *   same second are now two rows with different keys instead of one row with a shifted timestamp.
+ *
+ * Existing rows get their key the next time the eLocal fetch covers their day (the nearest keyless
+ * row in the match window is claimed), so refetch the recent history after running this.
+ *
+ * Usage: npx tsx src/database/migrate-elocal-call-key.ts
+ *    or: npm run migrate:elocal-call-key
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonClient } from '../config/database.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+async function main() {
+  const sql = createNeonClient();
+
+  console.log('[migrate] Adding ringba_call_data.elocal_call_key...');
+  await sql`ALTER TABLE public.ringba_call_data ADD COLUMN IF NOT EXISTS elocal_call_key VARCHAR(128)`;
+
+  console.log('[migrate] Creating unique index on elocal_call_key...');
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS uq_ringba_call_data_elocal_call_key
+    ON public.ringba_call_data (elocal_call_key)
+  `;
+
+  console.log('[migrate] Dropping unique_phone_timestamp (caller_id, call_timestamp)...');
+  await sql`ALTER TABLE public.ringba_call_data DROP CONSTRAINT IF EXISTS unique_phone_timestamp`;
+
+  console.log('[migrate] Adding lookup index on (caller_id, call_timestamp)...');
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_ringba_call_data_caller_ts
+    ON public.ringba_call_data (caller_id, call_timestamp)
+  `;
+
+  console.log('[migrate] OK: Done.');
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error('[migrate]', (e as Error).message);
+  process.exit(1);
+});
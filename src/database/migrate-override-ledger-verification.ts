@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+/**
+ * Migration: add verify-after-write columns to ringba_override_ledger
+ * (verify_status, verified_payout, verified_revenue, verified_at).
+ *
+ * Usage: npx tsx src/database/migrate-override-ledger-verification.ts
+ *    or: npm run migrate:override-ledger-verification
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonClient } from '../config/database.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+async function main() {
+  const sql = createNeonClient();
+
+  console.log('[migrate] Adding ringba_override_ledger verification columns...');
+  await sql`
+    ALTER TABLE public.ringba_override_ledger
+    ADD COLUMN IF NOT EXISTS verify_status VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS verified_payout DECIMAL(10, 2),
+    ADD COLUMN IF NOT EXISTS verified_revenue DECIMAL(10, 2),
+    ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP
+  `;
+
+  console.log('[migrate] OK: Done.');
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error('[migrate]', (e as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+/**
+ * Migration: add policy_rule to pending_payment_overrides and ringba_override_ledger.
+ * Holds the payout policy rule id (src/config/payout-policy.ts) that produced each override.
+ *
+ * Usage: npx tsx src/database/migrate-override-policy-rule.ts
+ *    or: npm run migrate:override-policy-rule
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonClient } from '../config/database.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+async function main() {
+  const sql = createNeonClient();
+
+  console.log('[migrate] Adding pending_payment_overrides.policy_rule...');
+  await sql`ALTER TABLE public.pending_payment_overrides ADD COLUMN IF NOT EXISTS policy_rule VARCHAR(100)`;
+
+  console.log('[migrate] Adding ringba_override_ledger.policy_rule...');
+  await sql`ALTER TABLE public.ringba_override_ledger ADD COLUMN IF NOT EXISTS policy_rule VARCHAR(100)`;
+
+  console.log('[migrate] OK: Done.');
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error('[migrate]', (e as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+/**
+ * Migration: add ringba_original_sync.extra (JSONB).
+ * Holds the extra Ringba call-log columns requested via RINGBA_CALLLOG_COLUMNS, keyed by column name.
+ *
+ * Usage: npx tsx src/database/migrate-ringba-original-sync-extra.ts
+ *    or: npm run migrate:ringba-original-sync-extra
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonClient } from '../config/database.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+async function main() {
+  const sql = createNeonClient();
+
+  console.log('[migrate] Adding ringba_original_sync.extra...');
+  await sql`ALTER TABLE public.ringba_original_sync ADD COLUMN IF NOT EXISTS extra JSONB`;
+
+  console.log('[migrate] OK: Done.');
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error('[migrate]', (e as Error).message);
+  process.exit(1);
+});
@@ -1,4 +1,7 @@
+import { gzipSync, gunzipSync } from 'zlib';
 import { createNeonClient } from '../config/database.js';
+import { getCampaign } from '../config/campaign-registry.js';
+import { toE164, getMatchProfile, decideMatch, toDurationSeconds } from '../utils/call-matching.js';
 import type {
   Session,
   SessionUpdate,
@@ -8,40 +11,286 @@ import type {
   InsertResult,
   Category,
   RingbaCallForSync,
+  QuarantinedElocalRecord,
+  ArchivedElocalResponse,
+  ElocalCallDiff,
+  ElocalFieldChange,
+  PayoutChange,
+  PayoutHistoryEntry,
+  SyncWatermarkSource,
+  RingbaTargetRecord,
+  RecordingCandidate,
+  RecordingStatus,
+  RecordingProgress,
+  MatchLinkInfo,
+  MatchLinkRecord,
+  MatchLinkFilter,
+  MatchRejectReason,
 } from '../types/index.js';
+import type {
+  RingbaPaymentUpdate,
+  PendingPaymentOverride,
+  PendingOverrideFilter,
+  PendingOverrideStatus,
+  OverrideLedgerEntry,
+  RingbaRollbackRequest,
+  RingbaRollbackCandidate,
+} from '../types/ringba-cost-sync.js';
 
 /**
- * Standardize phone number to E.164 format
- * @param raw - Raw phone number (e.g., "+1 (555) 123-4567" or "(555) 123-4567")
- * @returns Normalized phone number (e.g., "+15551234567") or null if invalid
+ * Convert an eLocal EST timestamp string to a UTC ISO string.
+ * eLocal returns timestamps like "2026-03-11T12:30:28" (no tz suffix) in EST.
+ * EST = UTC-5  (standard time, Nov–Mar)
+ * EDT = UTC-4  (daylight saving, Mar–Nov)
+ * We detect DST by checking if the date falls in the DST window for the US Eastern zone.
  */
-const toE164 = (raw: string | null | undefined): string | null => {
-  if (!raw) return null;
+const estToUtc = (estStr: string | null | undefined): string | null => {
+  if (!estStr) return null;
+  // Only convert bare ISO strings (no tz offset already present)
+  const match = estStr.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return estStr; // already has offset or different format — leave as-is
 
-  // Remove all non-digit characters
-  const digits = String(raw).replace(/\D/g, '');
-  if (!digits) return null;
+  const [, yr, mo, dy, hr, mn, sc] = match.map(Number);
+  // Determine EST vs EDT offset.
+  // DST in the US: second Sunday in March to first Sunday in November.
+  // Simple but accurate check: create Date at UTC and see if it falls in DST window.
+  const utcGuess = new Date(Date.UTC(yr, mo - 1, dy, hr, mn, sc));
+  // Eastern Time: isDST when UTC offset is -4 (EDT). We check via Intl API.
+  const easternOffset = (() => {
+    try {
+      // Get Eastern offset in minutes at the guessed UTC time
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: 'America/New_York',
+        timeZoneName: 'shortOffset',
+      }).formatToParts(utcGuess);
+      const tzPart = parts.find(p => p.type === 'timeZoneName');
+      // e.g. "GMT-4" or "GMT-5"
+      const offsetHrs = tzPart ? parseInt(tzPart.value.replace('GMT', '') || '-5', 10) : -5;
+      return offsetHrs; // negative means behind UTC
+    } catch {
+      return -5; // fallback to EST
+    }
+  })();
 
-  // If it already starts with +, assume it's mostly correct but clean non-digits
-  if (String(raw).startsWith('+')) {
-    return `+${digits}`;
-  }
+  // Shift to UTC: subtract the eastern offset (which is negative, so add abs)
+  const utcMs = Date.UTC(yr, mo - 1, dy, hr - easternOffset, mn, sc);
+  return new Date(utcMs).toISOString().replace('Z', ''); // store without Z for Postgres TIMESTAMP WITHOUT TIME ZONE
+};
 
-  // US/Canada numbers
-  if (digits.length === 11 && digits.startsWith('1')) {
-    return `+${digits}`;
+/** Loose equality for comparing a DB value with the value an upsert would write */
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
   }
-  if (digits.length === 10) {
-    return `+1${digits}`;
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Math.abs(Number(a) - Number(b)) < 0.005;
   }
-
-  // Default fallback for other lengths (prepend + if not present)
-  return digits.length > 0 ? `+${digits}` : null;
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as string).getTime() === new Date(b as string).getTime();
+  }
+  return String(a) === String(b);
 };
 
+const toMoney = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Math.round(Number(value) * 100) / 100;
+
+/**
+ * Money columns whose value differs between the old and new row.
+ */
+const diffMoneyColumns = (
+  base: Omit<PayoutChange, 'columnName' | 'oldValue' | 'newValue'>,
+  columns: Array<[columnName: string, oldValue: unknown, newValue: unknown]>
+): PayoutChange[] =>
+  columns
+    .map(([columnName, oldValue, newValue]) => ({
+      ...base,
+      columnName,
+      oldValue: toMoney(oldValue),
+      newValue: toMoney(newValue),
+    }))
+    .filter((c) => c.oldValue !== c.newValue);
+
 export const createNeonDbOps = () => {
   const sql = createNeonClient();
 
+  /**
+   * targetName-aware scope for finding the existing ringba_call_data row of an eLocal call.
+   * The `targetName` column in ringba_call_data is populated by the Ringba sync
+   * and uniquely identifies which campaign a call belongs to. Each campaign in the
+   * registry declares ILIKE include/exclude patterns, e.g.
+   *   STATIC: include '%static%'
+   *   API:    include '%appliance repair%', exclude '%static%'
+   * We use this to prevent STATIC fetch from stealing API rows and vice versa.
+   * Rows with NULL targetName (not yet Ringba-synced) are always matched —
+   * eLocal is the source of truth and will set the correct category.
+   */
+  const upsertTargetNameFilter = (category: Category) => {
+    const { targetNameFilter: nameFilter } = getCampaign(category);
+    return sql`AND (
+      ("targetName" ILIKE ANY(${nameFilter.include}::text[])
+        AND NOT ("targetName" ILIKE ANY(${nameFilter.exclude}::text[])))
+      OR "targetName" IS NULL
+    )`;
+  };
+
+  /**
+   * Keyless ringba_call_data row an eLocal call claims (CSV imports, Ringba-first rows, rows stored
+   * before call keys existed), or null. The caller's keyless rows in the campaign's targetName scope
+   * are judged by decideMatch with the shared elocal_upsert profile and the best score wins, so the
+   * fetch links calls the same way as the syncs. The targetName scope stands in for the category
+   * check (a row without targetName takes the eLocal call's category). Rejected rows are counted
+   * per reason code in `rejections`.
+   */
+  const findClaimableRow = async (
+    call: ElocalCall,
+    callerId: string,
+    utcTimestamp: string,
+    category: Category,
+    rejections: Map<MatchRejectReason, number>
+  ): Promise<number | null> => {
+    const profile = getMatchProfile('elocal_upsert', category);
+    const window = `${Math.max(profile.windowMinutes, profile.adjacentDayWindowMinutes)} minutes`;
+    const rows = await sql`
+      SELECT id, caller_id, to_char(call_timestamp, 'YYYY-MM-DD"T"HH24:MI:SS') AS call_time, call_duration
+      FROM public.ringba_call_data
+      WHERE caller_id = ${callerId}
+        AND elocal_call_key IS NULL
+        AND call_timestamp >= ${utcTimestamp}::timestamp - ${window}::interval
+        AND call_timestamp <= ${utcTimestamp}::timestamp + ${window}::interval
+        ${upsertTargetNameFilter(category)}
+      ORDER BY id
+    `;
+    // Both sides are stored as UTC without a zone
+    const asUtc = (ts: string) => (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?$/.test(ts) ? `${ts}Z` : ts);
+    const elocal = {
+      id: call.callKey ?? 0,
+      category,
+      callerId,
+      callTime: asUtc(utcTimestamp),
+      durationSeconds: toDurationSeconds(call.totalDuration),
+      payout: null,
+    };
+
+    let best: { id: number; score: number } | null = null;
+    for (const row of rows as Array<{ id: number; caller_id: string; call_time: string; call_duration: unknown }>) {
+      const decision = decideMatch(
+        elocal,
+        {
+          id: row.id,
+          category,
+          callerId: row.caller_id,
+          callTime: asUtc(row.call_time),
+          durationSeconds: toDurationSeconds(row.call_duration as number | string | null),
+          payout: null,
+        },
+        profile
+      );
+      if (!decision.matched) {
+        rejections.set(decision.reason, (rejections.get(decision.reason) || 0) + 1);
+      } else if (!best || decision.score < best.score) {
+        best = { id: row.id, score: decision.score };
+      }
+    }
+    return best?.id ?? null;
+  };
+
+  const logUpsertRejections = (rejections: Map<MatchRejectReason, number>) => {
+    if (rejections.size === 0) return;
+    const counts = [...rejections].map(([reason, count]) => `${reason} ${count}`).join(', ');
+    console.log(`[DB] Keyless rows in range not claimed: ${counts}`);
+  };
+
+  /**
+   * Append rows to call_payout_history. History is an audit trail, so a failure here
+   * is logged and never fails the write it describes.
+   */
+  const writePayoutHistory = async (changes: PayoutChange[]): Promise<number> => {
+    if (changes.length === 0) return 0;
+    try {
+      await sql`
+        INSERT INTO public.call_payout_history (
+          call_id, ringba_id, table_name, column_name, old_value, new_value, source, session_id
+        )
+        SELECT * FROM unnest(
+          ${changes.map((c) => c.callId)}::int[],
+          ${changes.map((c) => c.ringbaId)}::text[],
+          ${changes.map((c) => c.tableName)}::text[],
+          ${changes.map((c) => c.columnName)}::text[],
+          ${changes.map((c) => c.oldValue)}::numeric[],
+          ${changes.map((c) => c.newValue)}::numeric[],
+          ${changes.map((c) => c.source)}::text[],
+          ${changes.map((c) => c.sessionId)}::text[]
+        )
+      `;
+      return changes.length;
+    } catch (error) {
+      console.warn('[WARN] Failed to record payout history:', (error as Error).message);
+      return 0;
+    }
+  };
+
+  /**
+   * Upsert call_match_links rows for links a sync just made. Like payout history this is an audit
+   * trail, so a failure is logged and never fails the link itself.
+   */
+  const writeMatchLinks = async (
+    links: Array<{ callId: number; ringbaId: string; match: MatchLinkInfo }>,
+    runId: string | null
+  ): Promise<number> => {
+    // One row per (call, service) in a statement; the last link of a call wins
+    const unique = [...new Map(links.map((l) => [`${l.callId}|${l.match.service}`, l])).values()];
+    if (unique.length === 0) return 0;
+    try {
+      await sql`
+        INSERT INTO public.call_match_links (
+          call_id, ringba_id, service, match_score, time_diff_minutes, duration_diff_seconds,
+          payout_diff, assignment, matcher_version, run_id
+        )
+        SELECT * FROM unnest(
+          ${unique.map((l) => l.callId)}::int[],
+          ${unique.map((l) => l.ringbaId)}::text[],
+          ${unique.map((l) => l.match.service)}::text[],
+          ${unique.map((l) => l.match.score)}::numeric[],
+          ${unique.map((l) => l.match.timeDiffMinutes)}::numeric[],
+          ${unique.map((l) => l.match.durationDiffSeconds)}::int[],
+          ${unique.map((l) => l.match.payoutDiff)}::numeric[],
+          ${unique.map((l) => l.match.assignment)}::text[],
+          ${unique.map((l) => l.match.matcherVersion)}::text[],
+          ${unique.map(() => runId)}::text[]
+        )
+        ON CONFLICT (call_id, service) DO UPDATE SET
+          ringba_id = EXCLUDED.ringba_id,
+          match_score = EXCLUDED.match_score,
+          time_diff_minutes = EXCLUDED.time_diff_minutes,
+          duration_diff_seconds = EXCLUDED.duration_diff_seconds,
+          payout_diff = EXCLUDED.payout_diff,
+          assignment = EXCLUDED.assignment,
+          matcher_version = EXCLUDED.matcher_version,
+          run_id = EXCLUDED.run_id,
+          linked_at = CURRENT_TIMESTAMP
+      `;
+      return unique.length;
+    } catch (error) {
+      console.warn('[WARN] Failed to record match links:', (error as Error).message);
+      return 0;
+    }
+  };
+
+  /**
+   * AND-conditions for a pending_payment_overrides filter (unqualified column names).
+   */
+  const overrideFilter = (filter: PendingOverrideFilter) => {
+    const none = sql``;
+    return sql`
+      ${filter.ids && filter.ids.length > 0 ? sql`AND id = ANY(${filter.ids}::int[])` : none}
+      ${filter.status ? sql`AND status = ${filter.status}` : none}
+      ${filter.category ? sql`AND category = ${filter.category}` : none}
+      ${filter.startDate ? sql`AND DATE(call_timestamp) >= ${filter.startDate}::date` : none}
+      ${filter.endDate ? sql`AND DATE(call_timestamp) <= ${filter.endDate}::date` : none}
+      ${filter.runId ? sql`AND run_id = ${filter.runId}` : none}
+    `;
+  };
+
   return {
     /**
      * Create a new scraping session
@@ -115,58 +364,36 @@ export const createNeonDbOps = () => {
      * Insert or update eLocal campaign calls in batch.
      * Timestamps from eLocal API are in EST — we convert to UTC (+5h standard / +4h DST)
      * so they align with existing UTC data in ringba_call_data.
-     * Uses ON CONFLICT (caller_id, call_timestamp, category) UPSERT:
-     *   - If a row already exists (e.g. from a CSV import), we fill in the eLocal-specific
-     *     columns without overwriting downstream data (ringba_id, ringba_original_payout, etc.)
+     * Rows are keyed by the call's stable identity (elocal_call_key, see processCampaignCalls):
+     *   - The row with the same key is updated; refetching a day never creates new rows.
+     *   - Otherwise the keyless row decideMatch accepts with the best score (e.g. from a CSV import) is claimed:
+     *     we fill in the eLocal-specific columns and the key without overwriting downstream data
+     *     (ringba_id, ringba_original_payout, etc.)
+     *   - Otherwise a new row is inserted (ON CONFLICT (elocal_call_key) as a safety net).
+     * Every money column that changes on an existing row is recorded in call_payout_history.
      */
-    async insertCallsBatch(calls: ElocalCall[]): Promise<InsertResult> {
+    async insertCallsBatch(calls: ElocalCall[], sessionId: string | null = null): Promise<InsertResult> {
       if (!calls || calls.length === 0) {
         return { inserted: 0, updated: 0 };
       }
 
-      /**
-       * Convert an eLocal EST timestamp string to a UTC ISO string.
-       * eLocal returns timestamps like "2026-03-11T12:30:28" (no tz suffix) in EST.
-       * EST = UTC-5  (standard time, Nov–Mar)
-       * EDT = UTC-4  (daylight saving, Mar–Nov)
-       * We detect DST by checking if the date falls in the DST window for the US Eastern zone.
-       */
-      const estToUtc = (estStr: string | null | undefined): string | null => {
-        if (!estStr) return null;
-        // Only convert bare ISO strings (no tz offset already present)
-        const match = estStr.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})$/);
-        if (!match) return estStr; // already has offset or different format — leave as-is
-
-        const [, yr, mo, dy, hr, mn, sc] = match.map(Number);
-        // Determine EST vs EDT offset.
-        // DST in the US: second Sunday in March to first Sunday in November.
-        // Simple but accurate check: create Date at UTC and see if it falls in DST window.
-        const utcGuess = new Date(Date.UTC(yr, mo - 1, dy, hr, mn, sc));
-        // Eastern Time: isDST when UTC offset is -4 (EDT). We check via Intl API.
-        const easternOffset = (() => {
-          try {
-            // Get Eastern offset in minutes at the guessed UTC time
-            const parts = new Intl.DateTimeFormat('en-US', {
-              timeZone: 'America/New_York',
-              timeZoneName: 'shortOffset',
-            }).formatToParts(utcGuess);
-            const tzPart = parts.find(p => p.type === 'timeZoneName');
-            // e.g. "GMT-4" or "GMT-5"
-            const offsetHrs = tzPart ? parseInt(tzPart.value.replace('GMT', '') || '-5', 10) : -5;
-            return offsetHrs; // negative means behind UTC
-          } catch {
-            return -5; // fallback to EST
-          }
-        })();
-
-        // Shift to UTC: subtract the eastern offset (which is negative, so add abs)
-        const utcMs = Date.UTC(yr, mo - 1, dy, hr - easternOffset, mn, sc);
-        return new Date(utcMs).toISOString().replace('Z', ''); // store without Z for Postgres TIMESTAMP WITHOUT TIME ZONE
-      };
-
       try {
         let inserted = 0;
         let updated = 0;
+        const history: PayoutChange[] = [];
+        const rejections = new Map<MatchRejectReason, number>();
+        const recordRowChanges = (row: any) => {
+          history.push(
+            ...diffMoneyColumns(
+              { callId: row.id, ringbaId: row.ringba_id ?? null, tableName: 'ringba_call_data', source: 'elocal_fetch', sessionId },
+              [
+                ['ringba_revenue', row.old_ringba_revenue, row.ringba_revenue],
+                ['adjustment_amount', row.old_adjustment_amount, row.adjustment_amount],
+                ['ringba_original_payout', row.old_ringba_original_payout, row.ringba_original_payout],
+              ]
+            )
+          );
+        };
 
         for (const call of calls) {
           const normalizedCallerId = toE164(call.callerId) || call.callerId;
@@ -179,49 +406,80 @@ export const createNeonDbOps = () => {
 
           const category = call.category || 'STATIC';
 
-          // targetName-aware fuzzy match:
-          // The `targetName` column in ringba_call_data is populated by the Ringba sync
-          // and uniquely identifies which campaign a call belongs to:
-          //   STATIC: targetName ILIKE '%static%'   (e.g. "Elocal - Appliance repair - Static Line")
-          //   API:    targetName ILIKE '%appliance repair%' AND NOT ILIKE '%static%'
-          // We use this to prevent STATIC fetch from stealing API rows and vice versa.
-          // Rows with NULL targetName (not yet Ringba-synced) are always matched —
-          // eLocal is the source of truth and will set the correct category.
-          const targetNameFilter =
-            category === 'STATIC'
-              ? sql`AND ("targetName" ILIKE '%static%' OR "targetName" IS NULL)`
-              : sql`AND (("targetName" ILIKE '%appliance repair%' AND "targetName" NOT ILIKE '%static%') OR "targetName" IS NULL)`;
-
-          const matchResult = await sql`
-            UPDATE public.ringba_call_data
-            SET
-              category            = ${category},
-              ringba_revenue      = ${call.elocalPayout ?? 0},
-              call_duration       = COALESCE(public.ringba_call_data.call_duration, ${call.totalDuration || null}),
-              adjustment_time     = COALESCE(${call.adjustmentTime || null}, public.ringba_call_data.adjustment_time),
-              adjustment_amount   = COALESCE(${call.adjustmentAmount ?? 0}, public.ringba_call_data.adjustment_amount),
-              unmatched           = ${call.unmatched || false},
-              ringba_id           = COALESCE(public.ringba_call_data.ringba_id, ${call.ringbaInboundCallId || null}),
-              ringba_original_payout = COALESCE(public.ringba_call_data.ringba_original_payout, ${call.ringbaOriginalPayout !== undefined ? call.ringbaOriginalPayout : null}),
-              updated_at          = NOW()
-            WHERE caller_id = ${normalizedCallerId}
-              AND call_timestamp >= ${utcTimestamp}::timestamp - interval '10 minutes'
-              AND call_timestamp <= ${utcTimestamp}::timestamp + interval '10 minutes'
-              ${targetNameFilter}
-            RETURNING id
+          const callKey = call.callKey || null;
+
+          const setClause = sql`
+            category            = ${category},
+            ringba_revenue      = ${call.elocalPayout ?? 0},
+            call_duration       = COALESCE(r.call_duration, ${call.totalDuration || null}),
+            adjustment_time     = COALESCE(${call.adjustmentTime || null}, r.adjustment_time),
+            adjustment_amount   = COALESCE(${call.adjustmentAmount ?? 0}, r.adjustment_amount),
+            unmatched           = ${call.unmatched || false},
+            ringba_id           = COALESCE(r.ringba_id, ${call.ringbaInboundCallId || null}),
+            ringba_original_payout = COALESCE(r.ringba_original_payout, ${call.ringbaOriginalPayout !== undefined ? call.ringbaOriginalPayout : null}),
+            elocal_call_key     = COALESCE(r.elocal_call_key, ${callKey}),
+            updated_at          = NOW()
           `;
+          const returning = sql`
+            r.id, r.ringba_id, r.ringba_revenue, r.adjustment_amount, r.ringba_original_payout,
+            prev.ringba_revenue AS old_ringba_revenue,
+            prev.adjustment_amount AS old_adjustment_amount,
+            prev.ringba_original_payout AS old_ringba_original_payout
+          `;
+
+          // 1. The row already carrying this call's identity.
+          // Self-join on `prev` so RETURNING can report the pre-update money columns.
+          let matchResult = callKey
+            ? await sql`
+                UPDATE public.ringba_call_data AS r
+                SET ${setClause}
+                FROM (
+                  SELECT id, ringba_revenue, adjustment_amount, ringba_original_payout
+                  FROM public.ringba_call_data
+                  WHERE elocal_call_key = ${callKey}
+                ) AS prev
+                WHERE r.id = prev.id
+                RETURNING ${returning}
+              `
+            : [];
+
+          // 2. Claim a row without an identity yet (see findClaimableRow). One row per call,
+          //    so same-second calls each keep their own row.
+          if (matchResult.length === 0) {
+            const rowId = await findClaimableRow(call, normalizedCallerId, utcTimestamp, category, rejections);
+            if (rowId !== null) {
+              matchResult = await sql`
+                UPDATE public.ringba_call_data AS r
+                SET ${setClause}
+                FROM (
+                  SELECT id, ringba_revenue, adjustment_amount, ringba_original_payout
+                  FROM public.ringba_call_data
+                  WHERE id = ${rowId} AND elocal_call_key IS NULL
+                ) AS prev
+                WHERE r.id = prev.id
+                RETURNING ${returning}
+              `;
+            }
+          }
 
           if (matchResult.length > 0) {
-            // Updated one or more existing rows (covers duplicates too)
             updated++;
+            matchResult.forEach(recordRowChanges);
           } else {
-            // No match found — insert a fresh row, with ON CONFLICT safety net
+            // No match found — insert a fresh row, with ON CONFLICT safety net on the call identity.
+            // `prev` reads the conflicting row (if any) from the statement snapshot, i.e. before the update.
             const result = await sql`
+              WITH prev AS (
+                SELECT ringba_revenue, adjustment_amount, ringba_original_payout
+                FROM public.ringba_call_data
+                WHERE elocal_call_key = ${callKey}
+              )
               INSERT INTO public.ringba_call_data (
                 caller_id, call_timestamp, category,
                 call_duration,
                 adjustment_time, adjustment_amount, unmatched,
                 ringba_id, ringba_original_payout, ringba_revenue,
+                elocal_call_key,
                 created_at, updated_at
               )
               VALUES (
@@ -235,9 +493,10 @@ export const createNeonDbOps = () => {
                 ${call.ringbaInboundCallId || null},
                 ${call.ringbaOriginalPayout !== undefined ? call.ringbaOriginalPayout : null},
                 ${call.elocalPayout ?? 0},
+                ${callKey},
                 NOW(), NOW()
               )
-              ON CONFLICT (caller_id, call_timestamp)
+              ON CONFLICT (elocal_call_key)
               DO UPDATE SET
                 -- category is owned by eLocal fetch service (only caller of insertCallsBatch) — always overwrite
                 category            = EXCLUDED.category,
@@ -249,17 +508,30 @@ export const createNeonDbOps = () => {
                 ringba_id           = COALESCE(public.ringba_call_data.ringba_id, EXCLUDED.ringba_id),
                 ringba_original_payout = COALESCE(public.ringba_call_data.ringba_original_payout, EXCLUDED.ringba_original_payout),
                 updated_at          = NOW()
-              RETURNING (xmax = 0) AS was_inserted
+              RETURNING
+                (xmax = 0) AS was_inserted,
+                id, ringba_id, ringba_revenue, adjustment_amount, ringba_original_payout,
+                (SELECT ringba_revenue FROM prev) AS old_ringba_revenue,
+                (SELECT adjustment_amount FROM prev) AS old_adjustment_amount,
+                (SELECT ringba_original_payout FROM prev) AS old_ringba_original_payout
             `;
 
             if (result.length > 0) {
               if ((result[0] as any).was_inserted) inserted++;
-              else updated++;
+              else {
+                updated++;
+                recordRowChanges(result[0]);
+              }
             }
           }
         }
 
+        const historyRows = await writePayoutHistory(history);
         console.log(`[DB] UPSERT complete: ${inserted} inserted, ${updated} updated (matched existing rows)`);
+        logUpsertRejections(rejections);
+        if (historyRows > 0) {
+          console.log(`[DB] Recorded ${historyRows} payout change(s) in call_payout_history`);
+        }
         return { inserted, updated };
       } catch (error) {
         console.error('[ERROR] Failed to insert/update calls batch:', error);
@@ -268,7 +540,97 @@ export const createNeonDbOps = () => {
     },
 
     /**
-     * Insert adjustment details in batch
+     * Dry-run counterpart of insertCallsBatch: resolves each call against ringba_call_data with the
+     * same match rules and reports whether it would be inserted or which fields would change.
+     * Read-only. Calls are compared independently, so two calls in one batch that would claim the
+     * same keyless row both show as updates of it.
+     */
+    async previewCallsBatch(calls: ElocalCall[]): Promise<ElocalCallDiff[]> {
+      const diffs: ElocalCallDiff[] = [];
+      const rejections = new Map<MatchRejectReason, number>();
+
+      try {
+        for (const call of calls) {
+          const normalizedCallerId = toE164(call.callerId) || call.callerId;
+          const utcTimestamp = estToUtc(call.dateOfCall);
+          if (!utcTimestamp || !normalizedCallerId) continue;
+
+          const category = call.category || 'STATIC';
+
+          const callKey = call.callKey || null;
+          let rows = callKey
+            ? await sql`
+                SELECT id, category, ringba_revenue, call_duration, adjustment_time, adjustment_amount,
+                       unmatched, ringba_id, ringba_original_payout, elocal_call_key
+                FROM public.ringba_call_data
+                WHERE elocal_call_key = ${callKey}
+              `
+            : [];
+          if (rows.length === 0) {
+            // insertCallsBatch then claims a keyless row
+            const rowId = await findClaimableRow(call, normalizedCallerId, utcTimestamp, category, rejections);
+            rows = rowId === null
+              ? []
+              : await sql`
+                  SELECT id, category, ringba_revenue, call_duration, adjustment_time, adjustment_amount,
+                         unmatched, ringba_id, ringba_original_payout, elocal_call_key
+                  FROM public.ringba_call_data
+                  WHERE id = ${rowId}
+                `;
+          }
+
+          if (rows.length === 0) {
+            diffs.push({
+              action: 'insert',
+              callId: null,
+              callerId: normalizedCallerId,
+              callTimestamp: utcTimestamp,
+              category,
+              changes: [],
+            });
+            continue;
+          }
+
+          for (const row of rows as any[]) {
+            // Mirrors the SET clause of insertCallsBatch
+            const next: Record<string, unknown> = {
+              category,
+              ringba_revenue: call.elocalPayout ?? 0,
+              call_duration: row.call_duration ?? (call.totalDuration || null),
+              adjustment_time: call.adjustmentTime || row.adjustment_time,
+              adjustment_amount: call.adjustmentAmount ?? 0,
+              unmatched: call.unmatched || false,
+              ringba_id: row.ringba_id ?? (call.ringbaInboundCallId || null),
+              ringba_original_payout: row.ringba_original_payout ?? call.ringbaOriginalPayout ?? null,
+              elocal_call_key: row.elocal_call_key ?? callKey,
+            };
+            const changes: ElocalFieldChange[] = Object.entries(next)
+              .filter(([field, value]) => !sameValue(row[field], value))
+              .map(([field, value]) => ({ field, oldValue: row[field] ?? null, newValue: value ?? null }));
+
+            diffs.push({
+              action: changes.length > 0 ? 'update' : 'unchanged',
+              callId: row.id,
+              callerId: normalizedCallerId,
+              callTimestamp: utcTimestamp,
+              category,
+              changes,
+            });
+          }
+        }
+
+        logUpsertRejections(rejections);
+        return diffs;
+      } catch (error) {
+        console.error('[ERROR] Failed to preview calls batch:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Insert adjustment details in batch.
+     * Each distinct adjustment (call + adjustment time + amount) is kept, so a call adjusted
+     * more than once accumulates its full history; re-fetching the same adjustment is skipped.
      */
     async insertAdjustmentsBatch(
       adjustments: AdjustmentDetail[]
@@ -282,14 +644,14 @@ export const createNeonDbOps = () => {
         let skipped = 0;
 
         for (const adj of adjustments) {
-          // Check if adjustment already exists
+          // Check if this adjustment was already recorded
           const existing = await sql`
             SELECT id FROM public.adjustment_details
-            WHERE call_sid = ${adj.callSid || ''}
-              OR (
-                caller_id = ${adj.callerId}
-                AND time_of_call = ${adj.timeOfCall}
-                AND adjustment_time = ${adj.adjustmentTime}
+            WHERE adjustment_time = ${adj.adjustmentTime}
+              AND amount = ${adj.amount || 0}
+              AND (
+                (${adj.callSid || null}::text IS NOT NULL AND call_sid = ${adj.callSid || null})
+                OR (caller_id = ${adj.callerId} AND time_of_call = ${adj.timeOfCall})
               )
             LIMIT 1
           `;
@@ -327,6 +689,541 @@ export const createNeonDbOps = () => {
       }
     },
 
+    /**
+     * Store eLocal records that failed validation, with the reasons they were rejected. A record
+     * already quarantined for the campaign (same raw JSON) is refreshed instead of stored again.
+     * Returns how many records were new.
+     */
+    async insertQuarantinedRecords(
+      context: { sessionId: string; campaignUuid: string; category: Category },
+      records: Array<{ raw: unknown; reasons: string[] }>
+    ): Promise<{ inserted: number }> {
+      if (!records || records.length === 0) {
+        return { inserted: 0 };
+      }
+
+      try {
+        let inserted = 0;
+        for (const record of records) {
+          const result = await sql`
+            INSERT INTO public.quarantined_elocal_records (
+              session_id, campaign_uuid, category, raw_record, reason, status, quarantined_at
+            )
+            VALUES (
+              ${context.sessionId},
+              ${context.campaignUuid},
+              ${context.category},
+              ${JSON.stringify(record.raw ?? null)}::jsonb,
+              ${record.reasons.join('; ')},
+              'quarantined',
+              NOW()
+            )
+            ON CONFLICT (campaign_uuid, md5(raw_record::text)) DO UPDATE SET
+              session_id = EXCLUDED.session_id,
+              category = EXCLUDED.category,
+              reason = EXCLUDED.reason,
+              status = 'quarantined',
+              reprocessed_at = NULL
+            RETURNING (xmax = 0) AS was_inserted
+          `;
+          if ((result[0] as { was_inserted: boolean } | undefined)?.was_inserted) inserted++;
+        }
+        return { inserted };
+      } catch (error) {
+        console.error('[ERROR] Failed to insert quarantined records:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get quarantined eLocal records still awaiting re-processing (optionally for one session).
+     */
+    async getQuarantinedRecords(sessionId: string | null = null): Promise<QuarantinedElocalRecord[]> {
+      try {
+        const result = sessionId
+          ? await sql`
+              SELECT * FROM public.quarantined_elocal_records
+              WHERE status = 'quarantined' AND session_id = ${sessionId}
+              ORDER BY id
+            `
+          : await sql`
+              SELECT * FROM public.quarantined_elocal_records
+              WHERE status = 'quarantined'
+              ORDER BY id
+            `;
+        return result as QuarantinedElocalRecord[];
+      } catch (error) {
+        console.error('[ERROR] Failed to get quarantined records:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Mark a quarantined record as re-processed, or refresh its reason if it still fails.
+     */
+    async updateQuarantinedRecord(
+      id: number,
+      update: { status: 'quarantined' | 'reprocessed'; reason?: string }
+    ): Promise<{ updated: number }> {
+      try {
+        const result = await sql`
+          UPDATE public.quarantined_elocal_records
+          SET
+            status = ${update.status},
+            reason = COALESCE(${update.reason ?? null}, reason),
+            reprocessed_at = CASE WHEN ${update.status} = 'reprocessed' THEN NOW() ELSE reprocessed_at END
+          WHERE id = ${id}
+          RETURNING id
+        `;
+        return { updated: result.length };
+      } catch (error) {
+        console.error('[ERROR] Failed to update quarantined record:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Archive the raw eLocal response pages for one fetched chunk (gzip + base64).
+     * Returns the compressed size in bytes.
+     */
+    async archiveRawResponse(archive: {
+      sessionId: string;
+      campaignUuid: string;
+      category: Category;
+      chunkStart: string;
+      chunkEnd: string;
+      pages: unknown[];
+    }): Promise<{ bytes: number }> {
+      try {
+        const compressed = gzipSync(Buffer.from(JSON.stringify(archive.pages), 'utf8'));
+        await sql`
+          INSERT INTO public.elocal_raw_responses (
+            session_id, campaign_uuid, category, chunk_start, chunk_end, page_count, payload_gzip, payload_bytes
+          )
+          VALUES (
+            ${archive.sessionId},
+            ${archive.campaignUuid},
+            ${archive.category},
+            ${archive.chunkStart}::date,
+            ${archive.chunkEnd}::date,
+            ${archive.pages.length},
+            ${compressed.toString('base64')},
+            ${compressed.length}
+          )
+        `;
+        return { bytes: compressed.length };
+      } catch (error) {
+        console.error('[ERROR] Failed to archive raw eLocal response:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get the archived raw eLocal responses for a session, decompressed, in fetch order.
+     */
+    async getRawResponses(sessionId: string): Promise<ArchivedElocalResponse[]> {
+      try {
+        const result = await sql`
+          SELECT
+            id, session_id, campaign_uuid, category,
+            to_char(chunk_start, 'YYYY-MM-DD') AS chunk_start,
+            to_char(chunk_end, 'YYYY-MM-DD') AS chunk_end,
+            payload_gzip
+          FROM public.elocal_raw_responses
+          WHERE session_id = ${sessionId}
+          ORDER BY id
+        `;
+        return (result as Array<Omit<ArchivedElocalResponse, 'pages'> & { payload_gzip: string }>).map(
+          ({ payload_gzip, ...row }) => ({
+            ...row,
+            pages: JSON.parse(gunzipSync(Buffer.from(payload_gzip, 'base64')).toString('utf8')) as unknown[],
+          })
+        );
+      } catch (error) {
+        console.error('[ERROR] Failed to get raw eLocal responses:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Record payout/revenue pushed to Ringba (cost sync) in call_payout_history.
+     */
+    async recordPayoutChanges(changes: PayoutChange[]): Promise<{ recorded: number }> {
+      return { recorded: await writePayoutHistory(changes) };
+    },
+
+    /**
+     * Money-column timeline for one ringba_call_data row, oldest first.
+     * Includes ringba_original_sync and Ringba API changes for the call's ringba_id.
+     */
+    async getCallPayoutHistory(callId: number): Promise<PayoutHistoryEntry[]> {
+      try {
+        const result = await sql`
+          SELECT h.*
+          FROM public.call_payout_history h
+          WHERE h.call_id = ${callId}
+            OR h.ringba_id = (SELECT ringba_id FROM public.ringba_call_data WHERE id = ${callId})
+          ORDER BY h.changed_at, h.id
+        `;
+        return result as PayoutHistoryEntry[];
+      } catch (error) {
+        console.error('[ERROR] Failed to get call payout history:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Upsert targets listed by the Ringba API. New rows take the given initial category and are
+     * enabled only when it is set; existing rows keep their (operator-managed) category and enabled flag.
+     * Returns the IDs inserted for the first time.
+     */
+    async upsertRingbaTargets(
+      targets: Array<{ id: string; name: string; ringbaEnabled: boolean; initialCategory: Category | null }>
+    ): Promise<{ discovered: string[] }> {
+      const discovered: string[] = [];
+      try {
+        for (const target of targets) {
+          const result = await sql`
+            INSERT INTO public.ringba_targets (target_id, target_name, category, enabled, ringba_enabled)
+            VALUES (
+              ${target.id},
+              ${target.name},
+              ${target.initialCategory},
+              ${target.initialCategory !== null},
+              ${target.ringbaEnabled}
+            )
+            ON CONFLICT (target_id)
+            DO UPDATE SET
+              target_name = EXCLUDED.target_name,
+              ringba_enabled = EXCLUDED.ringba_enabled,
+              last_seen_at = NOW()
+            RETURNING (xmax = 0) AS was_inserted
+          `;
+          if ((result[0] as any)?.was_inserted) discovered.push(target.id);
+        }
+        return { discovered };
+      } catch (error) {
+        console.error('[ERROR] Failed to upsert Ringba targets:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * All known Ringba targets.
+     */
+    async getRingbaTargets(): Promise<RingbaTargetRecord[]> {
+      try {
+        const result = await sql`SELECT * FROM public.ringba_targets ORDER BY first_seen_at, target_id`;
+        return result as RingbaTargetRecord[];
+      } catch (error) {
+        console.error('[ERROR] Failed to get Ringba targets:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Set a target's category mapping and/or enabled flag.
+     */
+    async updateRingbaTarget(
+      targetId: string,
+      update: { category?: Category | null; enabled?: boolean }
+    ): Promise<{ updated: number }> {
+      try {
+        const result = await sql`
+          UPDATE public.ringba_targets
+          SET
+            category = CASE WHEN ${update.category !== undefined} THEN ${update.category ?? null} ELSE category END,
+            enabled = COALESCE(${update.enabled ?? null}, enabled)
+          WHERE target_id = ${targetId}
+          RETURNING target_id
+        `;
+        return { updated: result.length };
+      } catch (error) {
+        console.error('[ERROR] Failed to update Ringba target:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Calls in the date range with a ringba_id but no transcript, excluding calls given up on and
+     * calls whose next retry is not due yet.
+     */
+    async getCallsNeedingTranscripts(
+      startDate: Date,
+      endDate: Date,
+      category: Category | null = null
+    ): Promise<RecordingCandidate[]> {
+      try {
+        const startStr = startDate.toISOString().slice(0, 10);
+        const endStr = endDate.toISOString().slice(0, 10);
+        const categoryFilter = category ? sql`AND r.category = ${category}` : sql``;
+        const result = await sql`
+          SELECT r.id, r.ringba_id, r.call_timestamp, r."recordingUrl", COALESCE(s.attempts, 0)::int AS attempts
+          FROM public.ringba_call_data r
+          LEFT JOIN public.ringba_recording_status s ON s.ringba_id = r.ringba_id
+          WHERE r.ringba_id IS NOT NULL AND r.ringba_id != ''
+            AND (r.transcript IS NULL OR r.transcript = '')
+            AND DATE(r.call_timestamp) BETWEEN ${startStr}::date AND ${endStr}::date
+            ${categoryFilter}
+            AND (s.ringba_id IS NULL OR (s.status = 'pending' AND (s.next_retry_at IS NULL OR s.next_retry_at <= NOW())))
+          ORDER BY r.call_timestamp
+        `;
+        return result as RecordingCandidate[];
+      } catch (error) {
+        console.error('[ERROR] Failed to get calls needing transcripts:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Store recording URLs/transcripts. Existing transcripts are never overwritten and a null
+     * value keeps the stored one.
+     */
+    async saveCallRecordings(
+      rows: Array<{ id: number; recordingUrl: string | null; transcript: string | null }>
+    ): Promise<{ updated: number }> {
+      if (rows.length === 0) return { updated: 0 };
+      try {
+        const result = await sql`
+          UPDATE public.ringba_call_data AS r
+          SET
+            "recordingUrl" = COALESCE(v.recording_url, r."recordingUrl"),
+            transcript = COALESCE(v.transcript, r.transcript)
+          FROM (
+            SELECT *
+            FROM unnest(
+              ${rows.map((r) => r.id)}::int[],
+              ${rows.map((r) => r.recordingUrl)}::text[],
+              ${rows.map((r) => r.transcript)}::text[]
+            ) AS t(id, recording_url, transcript)
+          ) AS v
+          WHERE r.id = v.id
+            AND (r.transcript IS NULL OR r.transcript = '')
+          RETURNING r.id
+        `;
+        return { updated: result.length };
+      } catch (error) {
+        console.error('[ERROR] Failed to save call recordings:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Record a recording fetch attempt per call (attempts is incremented).
+     */
+    async recordRecordingAttempts(
+      entries: Array<{ ringbaId: string; status: RecordingStatus; nextRetryAt: Date | null }>
+    ): Promise<void> {
+      if (entries.length === 0) return;
+      try {
+        await sql`
+          INSERT INTO public.ringba_recording_status (ringba_id, status, attempts, last_checked_at, next_retry_at)
+          SELECT ringba_id, status, 1, NOW(), next_retry_at
+          FROM unnest(
+            ${entries.map((e) => e.ringbaId)}::text[],
+            ${entries.map((e) => e.status)}::text[],
+            ${entries.map((e) => (e.nextRetryAt ? e.nextRetryAt.toISOString() : null))}::timestamp[]
+          ) AS t(ringba_id, status, next_retry_at)
+          ON CONFLICT (ringba_id)
+          DO UPDATE SET
+            status = EXCLUDED.status,
+            attempts = ringba_recording_status.attempts + 1,
+            last_checked_at = NOW(),
+            next_retry_at = EXCLUDED.next_retry_at
+        `;
+      } catch (error) {
+        console.error('[ERROR] Failed to record recording attempts:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Recording/transcript coverage for calls in a date range.
+     */
+    async getRecordingProgress(
+      startDate: Date,
+      endDate: Date,
+      category: Category | null = null
+    ): Promise<RecordingProgress> {
+      try {
+        const startStr = startDate.toISOString().slice(0, 10);
+        const endStr = endDate.toISOString().slice(0, 10);
+        const categoryFilter = category ? sql`AND r.category = ${category}` : sql``;
+        const result = await sql`
+          SELECT
+            COUNT(*)::int AS total,
+            COUNT(*) FILTER (WHERE r.ringba_id IS NOT NULL AND r.ringba_id != '')::int AS with_ringba_id,
+            COUNT(*) FILTER (WHERE r."recordingUrl" IS NOT NULL AND r."recordingUrl" != '')::int AS with_recording,
+            COUNT(*) FILTER (WHERE r.transcript IS NOT NULL AND r.transcript != '')::int AS with_transcript,
+            COUNT(*) FILTER (WHERE s.status = 'pending')::int AS pending,
+            COUNT(*) FILTER (WHERE s.status = 'unavailable')::int AS unavailable
+          FROM public.ringba_call_data r
+          LEFT JOIN public.ringba_recording_status s ON s.ringba_id = r.ringba_id
+          WHERE DATE(r.call_timestamp) BETWEEN ${startStr}::date AND ${endStr}::date
+            ${categoryFilter}
+        `;
+        const row = result[0] as any;
+        return {
+          total: row.total,
+          withRingbaId: row.with_ringba_id,
+          withRecording: row.with_recording,
+          withTranscript: row.with_transcript,
+          pending: row.pending,
+          unavailable: row.unavailable,
+        };
+      } catch (error) {
+        console.error('[ERROR] Failed to get recording progress:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Content hashes of the last fetch for a source scope (campaign UUID or Ringba target ID),
+     * keyed by day (YYYY-MM-DD).
+     */
+    async getSyncWatermarks(
+      source: SyncWatermarkSource,
+      scopeKey: string,
+      days: string[]
+    ): Promise<Map<string, string>> {
+      if (days.length === 0) return new Map();
+      try {
+        const result = await sql`
+          SELECT to_char(day, 'YYYY-MM-DD') AS day, content_hash
+          FROM public.sync_watermarks
+          WHERE source = ${source} AND scope_key = ${scopeKey} AND day = ANY(${days}::date[])
+        `;
+        return new Map((result as Array<{ day: string; content_hash: string }>).map((r) => [r.day, r.content_hash]));
+      } catch (error) {
+        console.error('[ERROR] Failed to get sync watermarks:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Record a fetch of one day. last_changed_at only moves when the content hash changes.
+     */
+    async saveSyncWatermark(watermark: {
+      source: SyncWatermarkSource;
+      scopeKey: string;
+      day: string;
+      contentHash: string;
+      recordCount: number;
+    }): Promise<void> {
+      try {
+        await sql`
+          INSERT INTO public.sync_watermarks (source, scope_key, day, content_hash, record_count, last_fetched_at, last_changed_at)
+          VALUES (
+            ${watermark.source},
+            ${watermark.scopeKey},
+            ${watermark.day}::date,
+            ${watermark.contentHash},
+            ${watermark.recordCount},
+            NOW(),
+            NOW()
+          )
+          ON CONFLICT (source, scope_key, day)
+          DO UPDATE SET
+            last_changed_at = CASE
+              WHEN public.sync_watermarks.content_hash = EXCLUDED.content_hash THEN public.sync_watermarks.last_changed_at
+              ELSE NOW()
+            END,
+            content_hash = EXCLUDED.content_hash,
+            record_count = EXCLUDED.record_count,
+            last_fetched_at = NOW()
+        `;
+      } catch (error) {
+        console.error('[ERROR] Failed to save sync watermark:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Get chunk start dates (YYYY-MM-DD) already completed for a chunked eLocal fetch of a range.
+     */
+    async getCompletedFetchChunks(
+      campaignUuid: string,
+      rangeStart: string,
+      rangeEnd: string
+    ): Promise<string[]> {
+      try {
+        const result = await sql`
+          SELECT to_char(chunk_start, 'YYYY-MM-DD') AS chunk_start
+          FROM public.elocal_fetch_checkpoints
+          WHERE campaign_uuid = ${campaignUuid}
+            AND range_start = ${rangeStart}::date
+            AND range_end = ${rangeEnd}::date
+        `;
+        return (result as Array<{ chunk_start: string }>).map((r) => r.chunk_start);
+      } catch (error) {
+        console.error('[ERROR] Failed to get fetch checkpoints:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Record a finished chunk of a chunked eLocal fetch.
+     */
+    async markFetchChunkComplete(checkpoint: {
+      campaignUuid: string;
+      rangeStart: string;
+      rangeEnd: string;
+      chunkStart: string;
+      chunkEnd: string;
+      callsFetched: number;
+      sessionId: string;
+    }): Promise<void> {
+      try {
+        await sql`
+          INSERT INTO public.elocal_fetch_checkpoints (
+            campaign_uuid, range_start, range_end, chunk_start, chunk_end, calls_fetched, session_id, completed_at
+          )
+          VALUES (
+            ${checkpoint.campaignUuid},
+            ${checkpoint.rangeStart}::date,
+            ${checkpoint.rangeEnd}::date,
+            ${checkpoint.chunkStart}::date,
+            ${checkpoint.chunkEnd}::date,
+            ${checkpoint.callsFetched},
+            ${checkpoint.sessionId},
+            NOW()
+          )
+          ON CONFLICT (campaign_uuid, range_start, range_end, chunk_start)
+          DO UPDATE SET
+            chunk_end = EXCLUDED.chunk_end,
+            calls_fetched = EXCLUDED.calls_fetched,
+            session_id = EXCLUDED.session_id,
+            completed_at = NOW()
+        `;
+      } catch (error) {
+        console.error('[ERROR] Failed to save fetch checkpoint:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Clear checkpoints for a range once every chunk has completed.
+     */
+    async clearFetchCheckpoints(
+      campaignUuid: string,
+      rangeStart: string,
+      rangeEnd: string
+    ): Promise<{ deleted: number }> {
+      try {
+        const result = await sql`
+          DELETE FROM public.elocal_fetch_checkpoints
+          WHERE campaign_uuid = ${campaignUuid}
+            AND range_start = ${rangeStart}::date
+            AND range_end = ${rangeEnd}::date
+          RETURNING id
+        `;
+        return { deleted: result.length };
+      } catch (error) {
+        console.error('[ERROR] Failed to clear fetch checkpoints:', error);
+        throw error;
+      }
+    },
+
     /**
      * Get calls from database for a date range.
      * Boundaries use UTC dates since call_timestamp is stored in UTC.
@@ -428,7 +1325,8 @@ export const createNeonDbOps = () => {
       try {
         const result = await sql`
           SELECT id, caller_id, call_timestamp, category, unmatched,
-                 adjustment_amount, adjustment_time
+                 adjustment_amount, adjustment_time,
+                 ringba_id, ringba_revenue, ringba_original_payout
           FROM public.ringba_call_data
           WHERE id = ${callId}
         `;
@@ -448,20 +1346,36 @@ export const createNeonDbOps = () => {
         elocalPayout: number;
         adjustmentTime?: string | null;
         adjustmentAmount?: number | null;
-      }
+      },
+      sessionId: string | null = null
     ): Promise<{ updated: number }> {
       try {
         const result = await sql`
-          UPDATE public.ringba_call_data
+          UPDATE public.ringba_call_data AS r
           SET
             ringba_revenue = ${adjustmentData.elocalPayout ?? 0},
             adjustment_time = ${adjustmentData.adjustmentTime || null},
             adjustment_amount = ${adjustmentData.adjustmentAmount ?? 0},
             unmatched = ${false},
             updated_at = NOW()
-          WHERE id = ${callId}
-          RETURNING id
+          FROM (SELECT id, ringba_revenue, adjustment_amount FROM public.ringba_call_data WHERE id = ${callId}) AS prev
+          WHERE r.id = prev.id
+          RETURNING
+            r.id, r.ringba_id, r.ringba_revenue, r.adjustment_amount,
+            prev.ringba_revenue AS old_ringba_revenue, prev.adjustment_amount AS old_adjustment_amount
         `;
+        if (result.length > 0) {
+          const row = result[0] as any;
+          await writePayoutHistory(
+            diffMoneyColumns(
+              { callId: row.id, ringbaId: row.ringba_id ?? null, tableName: 'ringba_call_data', source: 'elocal_fetch', sessionId },
+              [
+                ['ringba_revenue', row.old_ringba_revenue, row.ringba_revenue],
+                ['adjustment_amount', row.old_adjustment_amount, row.adjustment_amount],
+              ]
+            )
+          );
+        }
         return { updated: result.length };
       } catch (error) {
         console.error('[ERROR] Failed to update call with adjustment:', error);
@@ -473,27 +1387,44 @@ export const createNeonDbOps = () => {
      * Update ringba_original_payout for an eLocal call (Ringba Original Sync).
      * NOTE: ringba_revenue is owned exclusively by the eLocal fetch service and is NOT updated here.
      * Only ringba_original_payout (the Ringba source-of-truth) and ringba_id are updated.
+     * With match, call_match_links records why the row is linked to ringbaInboundCallId.
      */
     async updateOriginalPayout(
       callId: number,
       originalPayout: number,
       _originalRevenue: number, // No longer written — ringba_revenue is owned by eLocal fetch service
-      ringbaInboundCallId: string | null
+      ringbaInboundCallId: string | null,
+      sessionId: string | null = null,
+      match: MatchLinkInfo | null = null
     ): Promise<{ updated: number }> {
       try {
         const result = await sql`
-          UPDATE public.ringba_call_data
+          UPDATE public.ringba_call_data AS r
           SET
-            ringba_original_payout = COALESCE(ringba_original_payout, ${originalPayout}),
-            ringba_id = COALESCE(ringba_id, ${ringbaInboundCallId}),
+            ringba_original_payout = COALESCE(r.ringba_original_payout, ${originalPayout}),
+            ringba_id = COALESCE(r.ringba_id, ${ringbaInboundCallId}),
             updated_at = NOW()
-          WHERE id = ${callId}
+          FROM (SELECT id, ringba_original_payout FROM public.ringba_call_data WHERE id = ${callId}) AS prev
+          WHERE r.id = prev.id
             AND NOT EXISTS (
               SELECT 1 FROM public.ringba_call_data 
               WHERE ringba_id = ${ringbaInboundCallId} AND id != ${callId}
             )
-          RETURNING id
+          RETURNING r.id, r.ringba_id, r.ringba_original_payout, prev.ringba_original_payout AS old_ringba_original_payout
         `;
+        if (result.length > 0) {
+          const row = result[0] as any;
+          await writePayoutHistory(
+            diffMoneyColumns(
+              { callId: row.id, ringbaId: row.ringba_id ?? null, tableName: 'ringba_call_data', source: 'original_sync', sessionId },
+              [['ringba_original_payout', row.old_ringba_original_payout, row.ringba_original_payout]]
+            )
+          );
+          // ringba_id is only set when empty; record the match only if the row now carries this link
+          if (match && ringbaInboundCallId && row.ringba_id === ringbaInboundCallId) {
+            await writeMatchLinks([{ callId: row.id, ringbaId: ringbaInboundCallId, match }], sessionId);
+          }
+        }
         return { updated: result.length };
       } catch (error) {
         console.error('[ERROR] Failed to update original payout:', error);
@@ -505,7 +1436,8 @@ export const createNeonDbOps = () => {
      * Insert or update Ringba calls in ringba_original_sync table (by ringba_id).
      */
     async insertRingbaCallsBatch(
-      ringbaCalls: RingbaCallForSync[]
+      ringbaCalls: RingbaCallForSync[],
+      sessionId: string | null = null
     ): Promise<{ inserted: number; updated: number; skipped: number }> {
       if (!ringbaCalls || ringbaCalls.length === 0) {
         return { inserted: 0, updated: 0, skipped: 0 };
@@ -513,12 +1445,24 @@ export const createNeonDbOps = () => {
       let inserted = 0;
       let updated = 0;
       let skipped = 0;
+      const history: PayoutChange[] = [];
       for (const call of ringbaCalls) {
         try {
           const existing = await sql`
-            SELECT id FROM public.ringba_original_sync WHERE ringba_id = ${call.inboundCallId} LIMIT 1
+            SELECT id, ringba_payout, ringba_revenue_amount
+            FROM public.ringba_original_sync WHERE ringba_id = ${call.inboundCallId} LIMIT 1
           `;
           if (existing.length > 0) {
+            const prev = existing[0] as any;
+            history.push(
+              ...diffMoneyColumns(
+                { callId: null, ringbaId: call.inboundCallId, tableName: 'ringba_original_sync', source: 'original_sync', sessionId },
+                [
+                  ['ringba_payout', prev.ringba_payout, call.payout ?? 0],
+                  ['ringba_revenue_amount', prev.ringba_revenue_amount, call.revenue ?? 0],
+                ]
+              )
+            );
             await sql`
               UPDATE public.ringba_original_sync
               SET
@@ -531,6 +1475,7 @@ export const createNeonDbOps = () => {
                 target_name = ${call.targetName ?? null},
                 campaign_name = ${call.campaignName ?? null},
                 publisher_name = ${call.publisherName ?? null},
+                extra = COALESCE(extra, '{}'::jsonb) || ${JSON.stringify(call.extra ?? {})}::jsonb,
                 updated_at = NOW()
               WHERE ringba_id = ${call.inboundCallId}
             `;
@@ -539,7 +1484,7 @@ export const createNeonDbOps = () => {
             await sql`
               INSERT INTO public.ringba_original_sync (
                 ringba_id, call_timestamp, caller_id, ringba_payout, ringba_revenue_amount,
-                call_duration, target_id, target_name, campaign_name, publisher_name
+                call_duration, target_id, target_name, campaign_name, publisher_name, extra
               )
               VALUES (
                 ${call.inboundCallId},
@@ -551,7 +1496,8 @@ export const createNeonDbOps = () => {
                 ${call.targetId ?? null},
                 ${call.targetName ?? null},
                 ${call.campaignName ?? null},
-                ${call.publisherName ?? null}
+                ${call.publisherName ?? null},
+                ${call.extra ? JSON.stringify(call.extra) : null}::jsonb
               )
             `;
             inserted++;
@@ -561,6 +1507,7 @@ export const createNeonDbOps = () => {
           skipped++;
         }
       }
+      await writePayoutHistory(history);
       return { inserted, updated, skipped };
     },
 
@@ -636,7 +1583,7 @@ export const createNeonDbOps = () => {
             id, ringba_id as inbound_call_id, call_timestamp as call_date_time, 
             caller_id, caller_id as caller_id_e164,
             ringba_payout as payout_amount, ringba_revenue_amount as revenue_amount, 
-            target_id, call_duration
+            target_id, call_duration, publisher_name
           FROM public.ringba_original_sync
           WHERE DATE(call_timestamp) BETWEEN ${startStr}::date AND ${endStr}::date
           ORDER BY caller_id, call_timestamp
@@ -652,10 +1599,12 @@ export const createNeonDbOps = () => {
 
     /**
      * Update ringba_inbound_call_id (ringba_id) for multiple calls
-     * Used by ringba-cost-sync to link eLocal calls to Ringba calls
+     * Used by ringba-cost-sync to link eLocal calls to Ringba calls; matches carrying match info
+     * are recorded in call_match_links
      */
     async updateRingbaInboundCallId(
-      matches: Array<{ elocalCallId: number; ringbaInboundCallId: string }>
+      matches: Array<{ elocalCallId: number; ringbaInboundCallId: string; match?: MatchLinkInfo }>,
+      runId: string | null = null
     ): Promise<{ updated: number }> {
       if (!matches || matches.length === 0) {
         return { updated: 0 };
@@ -663,6 +1612,7 @@ export const createNeonDbOps = () => {
 
       try {
         let updated = 0;
+        const links: Array<{ callId: number; ringbaId: string; match: MatchLinkInfo }> = [];
         for (const match of matches) {
           try {
             const result = await sql`
@@ -679,17 +1629,507 @@ export const createNeonDbOps = () => {
             `;
             if (result.length > 0) {
               updated++;
+              if (match.match) {
+                links.push({ callId: match.elocalCallId, ringbaId: match.ringbaInboundCallId, match: match.match });
+              }
             }
           } catch (e) {
             console.warn(`[WARN] Skipping ringba_id update for call ${match.elocalCallId}:`, (e as Error).message);
           }
         }
+        await writeMatchLinks(links, runId);
         return { updated };
       } catch (error) {
         console.error('[ERROR] Failed to update ringba_inbound_call_id:', error);
         throw error;
       }
     },
+
+    /**
+     * Queue cost sync overrides for review. A call with an open (pending/approved) override for the
+     * same amounts is left alone; an open override with different amounts is superseded. A rejected
+     * override for the same amounts also counts as unchanged until the eLocal payout changes, so
+     * scheduled runs don't re-queue what an operator already turned down.
+     */
+    async enqueuePaymentOverrides(
+      rows: Array<{
+        update: RingbaPaymentUpdate;
+        category: string | null;
+        callTimestamp: string | null;
+        elocalPayout: number;
+      }>,
+      runId: string | null = null
+    ): Promise<{ queued: number; unchanged: number; superseded: number }> {
+      let queued = 0;
+      let unchanged = 0;
+      let superseded = 0;
+      try {
+        for (const { update, category, callTimestamp, elocalPayout } of rows) {
+          const existing = (await sql`
+            SELECT id, status, new_payout, new_revenue, elocal_payout
+            FROM public.pending_payment_overrides
+            WHERE ringba_inbound_call_id = ${update.ringbaInboundCallId}
+              AND status IN ('pending', 'approved', 'rejected')
+          `) as any[];
+          const sameAmounts = (o: any) =>
+            Math.abs(Number(o.new_payout) - update.newPayout) < 0.005 &&
+            Math.abs(Number(o.new_revenue) - update.newRevenue) < 0.005;
+          const open = existing.filter((o) => o.status !== 'rejected');
+          const rejectedBefore = existing.some(
+            (o) =>
+              o.status === 'rejected' &&
+              sameAmounts(o) &&
+              o.elocal_payout !== null &&
+              Math.abs(Number(o.elocal_payout) - elocalPayout) < 0.005
+          );
+          if (open.some(sameAmounts)) {
+            unchanged++;
+            continue;
+          }
+          if (open.length > 0) {
+            await sql`
+              UPDATE public.pending_payment_overrides
+              SET status = 'superseded', review_note = ${`Superseded by run ${runId ?? 'unknown'}`}
+              WHERE id = ANY(${open.map((o) => o.id)}::int[])
+            `;
+            superseded += open.length;
+          }
+          if (rejectedBefore) {
+            unchanged++;
+            continue;
+          }
+          await sql`
+            INSERT INTO public.pending_payment_overrides (
+              run_id, elocal_call_id, ringba_inbound_call_id, target_id, category, call_timestamp,
+              current_payout, current_revenue, new_payout, new_revenue, elocal_payout,
+              match_time_diff, match_duration, policy_rule
+            )
+            VALUES (
+              ${runId},
+              ${update.elocalCallId},
+              ${update.ringbaInboundCallId},
+              ${update.targetId},
+              ${category},
+              ${callTimestamp},
+              ${update.currentPayout},
+              ${update.currentRevenue},
+              ${update.newPayout},
+              ${update.newRevenue},
+              ${elocalPayout},
+              ${Number.isFinite(update.matchInfo.timeDiff) ? update.matchInfo.timeDiff : null},
+              ${update.matchInfo.durationMatch},
+              ${update.policyRule ?? null}
+            )
+          `;
+          queued++;
+        }
+        return { queued, unchanged, superseded };
+      } catch (error) {
+        console.error('[ERROR] Failed to queue payment overrides:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Queued overrides matching the filter, oldest first.
+     */
+    async getPaymentOverrides(filter: PendingOverrideFilter = {}): Promise<PendingPaymentOverride[]> {
+      try {
+        const result = await sql`
+          SELECT * FROM public.pending_payment_overrides
+          WHERE TRUE ${overrideFilter(filter)}
+          ORDER BY id
+        `;
+        return result as PendingPaymentOverride[];
+      } catch (error) {
+        console.error('[ERROR] Failed to get payment overrides:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Approve or reject pending overrides matching the filter. Returns the IDs changed.
+     */
+    async reviewPaymentOverrides(
+      filter: PendingOverrideFilter,
+      decision: Extract<PendingOverrideStatus, 'approved' | 'rejected'>,
+      note: string | null = null
+    ): Promise<number[]> {
+      try {
+        const result = await sql`
+          UPDATE public.pending_payment_overrides
+          SET status = ${decision}, reviewed_at = NOW(), review_note = COALESCE(${note}, review_note)
+          WHERE status = 'pending' ${overrideFilter({ ...filter, status: undefined })}
+          RETURNING id
+        `;
+        return (result as Array<{ id: number }>).map((r) => r.id);
+      } catch (error) {
+        console.error('[ERROR] Failed to review payment overrides:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Mark pending/approved overrides stale when the call's eLocal payout (ringba_revenue) no longer
+     * equals the payout they were computed from. Returns the IDs marked.
+     */
+    async markStalePaymentOverrides(filter: PendingOverrideFilter = {}): Promise<number[]> {
+      try {
+        const result = await sql`
+          UPDATE public.pending_payment_overrides
+          SET
+            status = 'stale',
+            review_note = 'eLocal payout changed from ' || COALESCE(elocal_payout::text, 'null')
+              || ' to ' || COALESCE(chg.current_elocal_payout::text, 'null') || ' after queueing'
+          FROM (
+            SELECT p.id AS override_id, r.ringba_revenue AS current_elocal_payout
+            FROM public.pending_payment_overrides p
+            JOIN public.ringba_call_data r ON r.id = p.elocal_call_id
+            WHERE p.status IN ('pending', 'approved')
+              AND ABS(COALESCE(r.ringba_revenue, 0) - COALESCE(p.elocal_payout, 0)) > 0.005
+          ) AS chg
+          WHERE id = chg.override_id ${overrideFilter({ ...filter, status: undefined })}
+          RETURNING id
+        `;
+        return (result as Array<{ id: number }>).map((r) => r.id);
+      } catch (error) {
+        console.error('[ERROR] Failed to mark stale payment overrides:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Write a 'pending' ledger row before sending an override. Returns the row id.
+     */
+    async startOverrideLedgerEntry(entry: {
+      runId: string;
+      update: RingbaPaymentUpdate;
+      requestBody: unknown;
+    }): Promise<number> {
+      const { runId, update, requestBody } = entry;
+      try {
+        const result = await sql`
+          INSERT INTO public.ringba_override_ledger (
+            run_id, ringba_inbound_call_id, elocal_call_id, target_id,
+            old_payout, old_revenue, new_payout, new_revenue, request_body, policy_rule, status
+          )
+          VALUES (
+            ${runId},
+            ${update.ringbaInboundCallId},
+            ${update.elocalCallId},
+            ${update.targetId},
+            ${update.currentPayout},
+            ${update.currentRevenue},
+            ${update.newPayout},
+            ${update.newRevenue},
+            ${JSON.stringify(requestBody)}::jsonb,
+            ${update.policyRule ?? null},
+            'pending'
+          )
+          RETURNING id
+        `;
+        return (result[0] as { id: number }).id;
+      } catch (error) {
+        console.error('[ERROR] Failed to write override ledger entry:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Complete a ledger row with the Ringba response.
+     */
+    async completeOverrideLedgerEntry(
+      id: number,
+      outcome: { success: boolean; responseBody: unknown; httpStatus: number | null; error: string | null }
+    ): Promise<void> {
+      try {
+        await sql`
+          UPDATE public.ringba_override_ledger
+          SET
+            status = ${outcome.success ? 'success' : 'failed'},
+            response_body = ${outcome.responseBody === undefined ? null : JSON.stringify(outcome.responseBody)}::jsonb,
+            http_status = ${outcome.httpStatus},
+            error = ${outcome.error},
+            completed_at = NOW()
+          WHERE id = ${id}
+        `;
+      } catch (error) {
+        console.error('[ERROR] Failed to complete override ledger entry:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Record what the call log showed for an override after it was pushed.
+     */
+    async recordOverrideVerification(
+      id: number,
+      verification: { status: 'verified' | 'mismatched'; payout: number | null; revenue: number | null }
+    ): Promise<void> {
+      try {
+        await sql`
+          UPDATE public.ringba_override_ledger
+          SET
+            verify_status = ${verification.status},
+            verified_payout = ${verification.payout},
+            verified_revenue = ${verification.revenue},
+            verified_at = NOW()
+          WHERE id = ${id}
+        `;
+      } catch (error) {
+        console.error('[ERROR] Failed to record override verification:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Last successful ledger entry per call, for the given inbound call IDs. Overrides that
+     * verification found mismatched do not count.
+     */
+    async getLastSuccessfulOverrides(ringbaIds: string[]): Promise<Map<string, OverrideLedgerEntry>> {
+      const entries = new Map<string, OverrideLedgerEntry>();
+      if (ringbaIds.length === 0) return entries;
+      try {
+        const result = await sql`
+          SELECT DISTINCT ON (ringba_inbound_call_id) *
+          FROM public.ringba_override_ledger
+          WHERE ringba_inbound_call_id = ANY(${ringbaIds}::text[])
+            AND status = 'success'
+            AND verify_status IS DISTINCT FROM 'mismatched'
+          ORDER BY ringba_inbound_call_id, completed_at DESC, id DESC
+        `;
+        for (const row of result as OverrideLedgerEntry[]) {
+          entries.set(row.ringba_inbound_call_id, row);
+        }
+        return entries;
+      } catch (error) {
+        console.error('[ERROR] Failed to get last successful overrides:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Total $ already pushed per call day (YYYY-MM-DD) for the given days, from successful ledger
+     * rows outside rollback runs. A row's delta is the larger of its payout and revenue change, as in
+     * the cost sync guardrails.
+     */
+    async getPushedDeltaByDay(days: string[]): Promise<Map<string, number>> {
+      const totals = new Map<string, number>();
+      if (days.length === 0) return totals;
+      try {
+        const result = await sql`
+          SELECT
+            DATE(rcd.call_timestamp)::text AS call_day,
+            SUM(GREATEST(
+              ABS(COALESCE(l.new_payout, 0) - COALESCE(l.old_payout, 0)),
+              ABS(COALESCE(l.new_revenue, 0) - COALESCE(l.old_revenue, 0))
+            )) AS total
+          FROM public.ringba_override_ledger l
+          JOIN public.ringba_call_data rcd ON rcd.ringba_id = l.ringba_inbound_call_id
+          WHERE l.status = 'success'
+            AND l.run_id NOT LIKE 'rollback_%'
+            AND DATE(rcd.call_timestamp) = ANY(${days}::date[])
+          GROUP BY DATE(rcd.call_timestamp)
+        `;
+        for (const row of result as Array<{ call_day: string; total: string | number }>) {
+          totals.set(row.call_day, Number(row.total));
+        }
+        return totals;
+      } catch (error) {
+        console.error('[ERROR] Failed to get pushed override totals:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Most recent cost sync run with ledger rows still 'pending' (a run that died mid-request), or null.
+     * Rollback and approval push runs write the same ledger and are never resumed by the cost sync.
+     */
+    async getLatestIncompleteOverrideRun(): Promise<string | null> {
+      try {
+        const result = await sql`
+          SELECT run_id FROM public.ringba_override_ledger
+          WHERE status = 'pending' AND run_id LIKE 'cost_sync_%'
+          ORDER BY attempted_at DESC
+          LIMIT 1
+        `;
+        return result.length > 0 ? (result[0] as { run_id: string }).run_id : null;
+      } catch (error) {
+        console.error('[ERROR] Failed to get incomplete override run:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Mark a run's in-flight ('pending') ledger rows as interrupted. Returns how many were marked.
+     */
+    async markInterruptedOverrides(runId: string): Promise<number> {
+      try {
+        const result = await sql`
+          UPDATE public.ringba_override_ledger
+          SET status = 'interrupted', completed_at = NOW()
+          WHERE run_id = ${runId} AND status = 'pending'
+          RETURNING id
+        `;
+        return result.length;
+      } catch (error) {
+        console.error('[ERROR] Failed to mark interrupted overrides:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Overridden calls in a date range with their current and pre-override amounts, for a rollback.
+     * With a run id, only calls that run overrode successfully, restored to the amounts before that
+     * run's first override. Without one, every call with a successful ledger entry (restored to the
+     * amounts before its first override) or, from before the ledger existed, a 'ringba' entry in
+     * call_payout_history or a ringba_original_payout that differs from the ringba_original_sync payout
+     * (payout restored to the first recorded old value, else ringba_original_payout / ringba_original_sync;
+     * revenue to the first recorded old value, else null, as no original revenue is kept). Current
+     * amounts are the ringba_original_sync snapshot when it is newer than the last override, else that
+     * override's new amounts.
+     */
+    async getRollbackCandidates(request: RingbaRollbackRequest): Promise<RingbaRollbackCandidate[]> {
+      const none = sql``;
+      const { startDate, endDate, category, runId } = request;
+      try {
+        const result = await sql`
+          SELECT
+            rcd.id AS elocal_call_id,
+            rcd.ringba_id,
+            rcd.category,
+            rcd.call_timestamp::text AS call_timestamp,
+            COALESCE(last_ok.target_id, ros.target_id) AS target_id,
+            CASE
+              WHEN last_ok.id IS NULL OR ros.updated_at > last_ok.completed_at THEN ros.ringba_payout
+              ELSE last_ok.new_payout
+            END AS current_payout,
+            CASE
+              WHEN last_ok.id IS NULL OR ros.updated_at > last_ok.completed_at THEN ros.ringba_revenue_amount
+              ELSE last_ok.new_revenue
+            END AS current_revenue,
+            first_ok.id IS NOT NULL AS from_ledger,
+            COALESCE(first_ok.old_payout, hist.old_payout, rcd.ringba_original_payout, ros.ringba_payout) AS restore_payout,
+            COALESCE(first_ok.old_revenue, hist.old_revenue) AS restore_revenue
+          FROM public.ringba_call_data rcd
+          LEFT JOIN public.ringba_original_sync ros ON ros.ringba_id = rcd.ringba_id
+          LEFT JOIN LATERAL (
+            SELECT l.id, l.old_payout, l.old_revenue
+            FROM public.ringba_override_ledger l
+            WHERE l.ringba_inbound_call_id = rcd.ringba_id
+              AND l.status = 'success'
+              ${runId ? sql`AND l.run_id = ${runId}` : none}
+            ORDER BY l.completed_at, l.id
+            LIMIT 1
+          ) first_ok ON TRUE
+          LEFT JOIN LATERAL (
+            SELECT l.id, l.new_payout, l.new_revenue, l.target_id, l.completed_at
+            FROM public.ringba_override_ledger l
+            WHERE l.ringba_inbound_call_id = rcd.ringba_id AND l.status = 'success'
+              AND l.verify_status IS DISTINCT FROM 'mismatched'
+            ORDER BY l.completed_at DESC, l.id DESC
+            LIMIT 1
+          ) last_ok ON TRUE
+          LEFT JOIN LATERAL (
+            SELECT
+              (ARRAY_AGG(h.old_value ORDER BY h.changed_at, h.id) FILTER (WHERE h.column_name = 'payout'))[1] AS old_payout,
+              (ARRAY_AGG(h.old_value ORDER BY h.changed_at, h.id) FILTER (WHERE h.column_name = 'revenue'))[1] AS old_revenue,
+              COUNT(*) AS changes
+            FROM public.call_payout_history h
+            WHERE h.ringba_id = rcd.ringba_id AND h.table_name = 'ringba'
+          ) hist ON TRUE
+          WHERE rcd.ringba_id IS NOT NULL
+            AND DATE(rcd.call_timestamp) BETWEEN ${startDate}::date AND ${endDate}::date
+            ${category ? sql`AND rcd.category = ${category}` : none}
+            AND (
+              first_ok.id IS NOT NULL
+              ${runId
+                ? none
+                : sql`OR hist.changes > 0
+                  OR ABS(rcd.ringba_original_payout - ros.ringba_payout) >= 0.005`}
+            )
+          ORDER BY rcd.call_timestamp, rcd.id
+        `;
+        const num = (value: unknown): number | null =>
+          value === null || value === undefined ? null : Number(value);
+        return (result as any[]).map((row) => ({
+          elocalCallId: row.elocal_call_id,
+          ringbaInboundCallId: row.ringba_id,
+          targetId: row.target_id ?? null,
+          category: row.category ?? null,
+          callTimestamp: row.call_timestamp ?? null,
+          currentPayout: num(row.current_payout) ?? 0,
+          currentRevenue: num(row.current_revenue) ?? 0,
+          restorePayout: num(row.restore_payout),
+          restoreRevenue: num(row.restore_revenue),
+          restoreSource: row.from_ledger ? 'ledger' : 'original',
+        }));
+      } catch (error) {
+        console.error('[ERROR] Failed to get rollback candidates:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Record the outcome of pushing an approved override to Ringba.
+     */
+    async markPaymentOverridePushed(id: number, success: boolean, error: string | null = null): Promise<void> {
+      try {
+        await sql`
+          UPDATE public.pending_payment_overrides
+          SET status = ${success ? 'pushed' : 'failed'}, pushed_at = NOW(), push_error = ${error}
+          WHERE id = ${id}
+        `;
+      } catch (err) {
+        console.error('[ERROR] Failed to record payment override push:', err);
+        throw err;
+      }
+    },
+
+    /**
+     * Links recorded in call_match_links for calls in a date range, weakest match first.
+     */
+    async getMatchLinks(filter: MatchLinkFilter): Promise<MatchLinkRecord[]> {
+      const none = sql``;
+      try {
+        const result = await sql`
+          SELECT
+            l.call_id, l.ringba_id, l.service, l.match_score, l.time_diff_minutes, l.duration_diff_seconds,
+            l.payout_diff, l.assignment, l.matcher_version, l.run_id, l.linked_at::text AS linked_at,
+            rcd.category, rcd.caller_id, rcd.call_timestamp::text AS call_timestamp
+          FROM public.call_match_links l
+          JOIN public.ringba_call_data rcd ON rcd.id = l.call_id
+          WHERE DATE(rcd.call_timestamp) >= ${filter.startDate}::date
+            AND DATE(rcd.call_timestamp) <= ${filter.endDate}::date
+            ${filter.category ? sql`AND rcd.category = ${filter.category}` : none}
+            ${filter.service ? sql`AND l.service = ${filter.service}` : none}
+            ${filter.minScore != null ? sql`AND l.match_score >= ${filter.minScore}` : none}
+            ${filter.minTimeDiffMinutes != null ? sql`AND l.time_diff_minutes >= ${filter.minTimeDiffMinutes}` : none}
+          ORDER BY l.match_score DESC, l.call_id
+        `;
+        const num = (value: unknown): number | null =>
+          value === null || value === undefined ? null : Number(value);
+        return (result as any[]).map((row) => ({
+          callId: row.call_id,
+          ringbaId: row.ringba_id,
+          service: row.service,
+          score: Number(row.match_score),
+          timeDiffMinutes: Number(row.time_diff_minutes),
+          durationDiffSeconds: num(row.duration_diff_seconds),
+          payoutDiff: num(row.payout_diff),
+          assignment: row.assignment,
+          matcherVersion: row.matcher_version,
+          runId: row.run_id ?? null,
+          linkedAt: row.linked_at,
+          category: row.category ?? null,
+          callerId: row.caller_id ?? null,
+          callTimestamp: row.call_timestamp ?? null,
+        }));
+      } catch (error) {
+        console.error('[ERROR] Failed to get match links:', error);
+        throw error;
+      }
+    },
   };
 };
 
@@ -67,6 +67,7 @@ CREATE INDEX IF NOT EXISTS idx_caller_timestamp_category ON elocal_call_data(cal
 CREATE INDEX IF NOT EXISTS idx_adjustment_details_caller_id ON adjustment_details(caller_id);
 CREATE INDEX IF NOT EXISTS idx_adjustment_details_time_of_call ON adjustment_details(time_of_call);
 CREATE INDEX IF NOT EXISTS idx_adjustment_details_call_sid ON adjustment_details(call_sid);
+CREATE INDEX IF NOT EXISTS idx_adjustment_details_call_history ON adjustment_details(caller_id, time_of_call, adjustment_time);
 
 -- Table to store Ringba calls (raw data from Ringba API) - for Ringba Original Sync
 CREATE TABLE IF NOT EXISTS ringba_original_sync (
@@ -81,6 +82,8 @@ CREATE TABLE IF NOT EXISTS ringba_original_sync (
     target_name VARCHAR(255),
     campaign_name VARCHAR(255),
     publisher_name VARCHAR(255),
+    -- Extra call-log columns requested via RINGBA_CALLLOG_COLUMNS, keyed by Ringba column name
+    extra JSONB,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -88,3 +91,212 @@ CREATE TABLE IF NOT EXISTS ringba_original_sync (
 CREATE INDEX IF NOT EXISTS idx_ringba_original_sync_ringba_id ON ringba_original_sync(ringba_id);
 CREATE INDEX IF NOT EXISTS idx_ringba_original_sync_caller_id ON ringba_original_sync(caller_id);
 CREATE INDEX IF NOT EXISTS idx_ringba_original_sync_call_timestamp ON ringba_original_sync(call_timestamp);
+
+-- Per-chunk progress for chunked eLocal fetches.
+-- A run over a multi-day range records each finished chunk; a failed run resumes from the
+-- last finished chunk, and rows are cleared once the whole range completes.
+CREATE TABLE IF NOT EXISTS elocal_fetch_checkpoints (
+    id SERIAL PRIMARY KEY,
+    campaign_uuid VARCHAR(64) NOT NULL,
+    range_start DATE NOT NULL,
+    range_end DATE NOT NULL,
+    chunk_start DATE NOT NULL,
+    chunk_end DATE NOT NULL,
+    calls_fetched INTEGER DEFAULT 0,
+    session_id VARCHAR(255),
+    completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(campaign_uuid, range_start, range_end, chunk_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_elocal_fetch_checkpoints_range ON elocal_fetch_checkpoints(campaign_uuid, range_start, range_end);
+
+-- eLocal records that failed schema validation (see src/utils/elocal-call-validator.ts).
+-- status: 'quarantined' until re-processed with `npm run reprocess:quarantine`, then 'reprocessed'.
+CREATE TABLE IF NOT EXISTS quarantined_elocal_records (
+    id SERIAL PRIMARY KEY,
+    session_id VARCHAR(255),
+    campaign_uuid VARCHAR(64),
+    category VARCHAR(50) NOT NULL,
+    raw_record JSONB NOT NULL,
+    reason TEXT NOT NULL,
+    status VARCHAR(20) DEFAULT 'quarantined',
+    quarantined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    reprocessed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_elocal_records_status ON quarantined_elocal_records(status);
+CREATE INDEX IF NOT EXISTS idx_quarantined_elocal_records_session_id ON quarantined_elocal_records(session_id);
+
+-- One row per campaign and raw record: repeated fetches of the same bad record refresh its row.
+-- Duplicates stored before the key existed are removed first, keeping the newest.
+DELETE FROM quarantined_elocal_records older
+USING quarantined_elocal_records newer
+WHERE older.campaign_uuid = newer.campaign_uuid
+  AND md5(older.raw_record::text) = md5(newer.raw_record::text)
+  AND older.id < newer.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quarantined_elocal_records_raw
+    ON quarantined_elocal_records(campaign_uuid, md5(raw_record::text));
+
+-- Every change to a money column, with the process and session that made it.
+-- ringba_call_data changes come from the eLocal fetch and original sync; table_name 'ringba'
+-- rows are payout/revenue pushed to Ringba by the cost sync. View one call with `npm run history:call -- <id>`.
+CREATE TABLE IF NOT EXISTS call_payout_history (
+    id SERIAL PRIMARY KEY,
+    call_id INTEGER,
+    ringba_id VARCHAR(255),
+    table_name VARCHAR(50) NOT NULL,
+    column_name VARCHAR(50) NOT NULL,
+    old_value DECIMAL(10, 2),
+    new_value DECIMAL(10, 2),
+    source VARCHAR(50) NOT NULL,
+    session_id VARCHAR(255),
+    changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_payout_history_call_id ON call_payout_history(call_id);
+CREATE INDEX IF NOT EXISTS idx_call_payout_history_ringba_id ON call_payout_history(ringba_id);
+
+-- Ringba targets seen in the account (target discovery). category maps a target's calls to a
+-- campaign; new targets start unmapped and disabled unless the campaign registry lists them.
+-- Map one with `npm run targets:discover -- --map <target_id> <CATEGORY>`.
+CREATE TABLE IF NOT EXISTS ringba_targets (
+    target_id VARCHAR(255) PRIMARY KEY,
+    target_name VARCHAR(255) NOT NULL,
+    category VARCHAR(50),
+    enabled BOOLEAN DEFAULT false,
+    ringba_enabled BOOLEAN DEFAULT true,
+    first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Recording/transcript fetch state per Ringba call (ringba_call_data."recordingUrl" / transcript).
+-- status: 'ready' once the transcript is stored, 'pending' while Ringba has not finished the
+-- recording or transcript (retried after next_retry_at), 'unavailable' after the maximum attempts.
+CREATE TABLE IF NOT EXISTS ringba_recording_status (
+    ringba_id VARCHAR(255) PRIMARY KEY,
+    status VARCHAR(20) NOT NULL,
+    attempts INTEGER DEFAULT 0,
+    last_checked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    next_retry_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ringba_recording_status_retry ON ringba_recording_status(status, next_retry_at);
+
+-- Ringba payment overrides waiting for review (cost sync approval mode, RINGBA_OVERRIDE_APPROVAL=true).
+-- Reviewed with `npm run overrides -- list|approve|reject`; `npm run overrides:push` sends approved rows.
+-- elocal_payout is the eLocal payout the override was computed from: pending/approved rows become
+-- 'stale' when ringba_call_data.ringba_revenue has changed since.
+CREATE TABLE IF NOT EXISTS pending_payment_overrides (
+    id SERIAL PRIMARY KEY,
+    run_id VARCHAR(255),
+    elocal_call_id INTEGER NOT NULL,
+    ringba_inbound_call_id VARCHAR(255) NOT NULL,
+    target_id VARCHAR(255),
+    category VARCHAR(50),
+    call_timestamp TIMESTAMP,
+    current_payout DECIMAL(10, 2) DEFAULT 0,
+    current_revenue DECIMAL(10, 2) DEFAULT 0,
+    new_payout DECIMAL(10, 2) NOT NULL,
+    new_revenue DECIMAL(10, 2) NOT NULL,
+    elocal_payout DECIMAL(10, 2),
+    match_time_diff DECIMAL(10, 2),
+    match_duration BOOLEAN,
+    -- Payout policy rule id that produced new_payout/new_revenue (src/config/payout-policy.ts)
+    policy_rule VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    review_note TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    reviewed_at TIMESTAMP,
+    pushed_at TIMESTAMP,
+    push_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_payment_overrides_status ON pending_payment_overrides(status);
+CREATE INDEX IF NOT EXISTS idx_pending_payment_overrides_ringba_id ON pending_payment_overrides(ringba_inbound_call_id);
+
+-- Every Ringba payment override attempt (cost sync Step 4 and `npm run overrides:push`).
+-- A row is written as 'pending' before the request and completed with the response, so a run that
+-- dies mid-way shows what was pushed. Later runs skip calls whose last successful override already
+-- set the target amounts; `npm run sync:cost -- ... --resume` continues an interrupted run.
+CREATE TABLE IF NOT EXISTS ringba_override_ledger (
+    id SERIAL PRIMARY KEY,
+    run_id VARCHAR(255) NOT NULL,
+    ringba_inbound_call_id VARCHAR(255) NOT NULL,
+    elocal_call_id INTEGER,
+    target_id VARCHAR(255),
+    old_payout DECIMAL(10, 2),
+    old_revenue DECIMAL(10, 2),
+    new_payout DECIMAL(10, 2) NOT NULL,
+    new_revenue DECIMAL(10, 2) NOT NULL,
+    request_body JSONB,
+    response_body JSONB,
+    http_status INTEGER,
+    policy_rule VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    error TEXT,
+    attempted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+    -- Verify-after-write: 'verified' / 'mismatched' with the amounts the call log showed after the push
+    verify_status VARCHAR(20),
+    verified_payout DECIMAL(10, 2),
+    verified_revenue DECIMAL(10, 2),
+    verified_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ringba_override_ledger_call ON ringba_override_ledger(ringba_inbound_call_id, status);
+CREATE INDEX IF NOT EXISTS idx_ringba_override_ledger_run ON ringba_override_ledger(run_id, status);
+
+-- Why a ringba_call_data row was linked to a Ringba call (ringba_id), one row per call and linking
+-- service (cost_sync / original_sync); a later link by the same service replaces it. Score and deltas
+-- come from the matcher (src/utils/call-matching.ts), assignment is optimal / greedy.
+-- Audit with `npm run audit:matches -- <startDate> <endDate> [--min-score=N]`.
+CREATE TABLE IF NOT EXISTS call_match_links (
+    id SERIAL PRIMARY KEY,
+    call_id INTEGER NOT NULL,
+    ringba_id VARCHAR(255) NOT NULL,
+    service VARCHAR(20) NOT NULL,
+    match_score DECIMAL(12, 4) NOT NULL,
+    time_diff_minutes DECIMAL(10, 2) NOT NULL,
+    duration_diff_seconds INTEGER,
+    payout_diff DECIMAL(10, 2),
+    assignment VARCHAR(20) NOT NULL,
+    matcher_version VARCHAR(20) NOT NULL,
+    run_id VARCHAR(255),
+    linked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(call_id, service)
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_match_links_ringba_id ON call_match_links(ringba_id);
+
+-- Last fetch per source scope and day, with a hash of that day's result set.
+-- source 'elocal': scope_key = campaign UUID (one row per fetched chunk, keyed by its first day);
+-- source 'ringba': scope_key = Ringba target ID. Days whose hash is unchanged skip the DB write phase.
+CREATE TABLE IF NOT EXISTS sync_watermarks (
+    id SERIAL PRIMARY KEY,
+    source VARCHAR(20) NOT NULL,
+    scope_key VARCHAR(255) NOT NULL,
+    day DATE NOT NULL,
+    content_hash VARCHAR(64) NOT NULL,
+    record_count INTEGER DEFAULT 0,
+    last_fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(source, scope_key, day)
+);
+
+-- Raw eLocal API responses, one row per fetched chunk, gzip-compressed and base64-encoded.
+-- Replay a session offline with `npm run replay:session -- <session_id>`.
+CREATE TABLE IF NOT EXISTS elocal_raw_responses (
+    id SERIAL PRIMARY KEY,
+    session_id VARCHAR(255) NOT NULL,
+    campaign_uuid VARCHAR(64) NOT NULL,
+    category VARCHAR(50) NOT NULL,
+    chunk_start DATE NOT NULL,
+    chunk_end DATE NOT NULL,
+    page_count INTEGER NOT NULL,
+    payload_gzip TEXT NOT NULL,
+    payload_bytes INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_elocal_raw_responses_session_id ON elocal_raw_responses(session_id);
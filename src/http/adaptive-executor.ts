@@ -0,0 +1,161 @@
+/**
+ * Worker pool whose concurrency adapts to how the remote API is coping.
+ * Starts at half the maximum and adds a worker after every `limit` consecutive fast tasks; a task
+ * slower than latencyThresholdMs removes one, and a 429 (a throttled result, or a throttled()
+ * signal from inside a task, e.g. a retry) halves the pool and pauses new tasks for cooldownMs.
+ * Decreases are spaced at least a second apart so one burst of 429s does not collapse the pool.
+ */
+import type { AdaptiveExecutorStats } from '../types/index.js';
+
+export interface AdaptiveExecutorOptions<R> {
+  maxConcurrency: number;
+  minConcurrency?: number;
+  /** Task latency above which the pool shrinks by one */
+  latencyThresholdMs: number;
+  /** Pause before starting new tasks after a 429 */
+  cooldownMs?: number;
+  /** Result counts as an error (error rate) */
+  isError: (result: R) => boolean;
+  /** Result was rate limited */
+  isThrottled?: (result: R) => boolean;
+}
+
+export interface AdaptiveTaskSignals {
+  /** Report rate limiting seen while the task runs (e.g. a 429 that is being retried) */
+  throttled(): void;
+}
+
+export interface AdaptiveRunResult<R> {
+  /** One result per item, in item order */
+  results: R[];
+  stats: AdaptiveExecutorStats;
+}
+
+const DECREASE_SPACING_MS = 1000;
+
+/**
+ * Run task over every item. Tasks are expected to resolve with a result describing failure rather
+ * than reject; a rejection rejects the whole run.
+ */
+export const runAdaptive = <T, R>(
+  items: T[],
+  task: (item: T, index: number, signals: AdaptiveTaskSignals) => Promise<R>,
+  options: AdaptiveExecutorOptions<R>
+): Promise<AdaptiveRunResult<R>> => {
+  const max = Math.max(1, Math.floor(options.maxConcurrency));
+  const min = Math.min(max, Math.max(1, Math.floor(options.minConcurrency ?? 1)));
+  const cooldownMs = options.cooldownMs ?? 2000;
+  const initial = Math.max(min, Math.ceil(max / 2));
+
+  const started = Date.now();
+  const results: R[] = new Array(items.length);
+  let limit = initial;
+  let lowest = initial;
+  let highest = initial;
+  let next = 0;
+  let inFlight = 0;
+  let fastStreak = 0;
+  let lastDecreaseAt = 0;
+  let pauseUntil = 0;
+  let errors = 0;
+  let throttled = 0;
+  let totalLatency = 0;
+  let pauseTimer: NodeJS.Timeout | null = null;
+  let failedWith: unknown = null;
+
+  const decrease = (to: number) => {
+    const now = Date.now();
+    if (now - lastDecreaseAt < DECREASE_SPACING_MS) return;
+    lastDecreaseAt = now;
+    limit = Math.max(min, to);
+    lowest = Math.min(lowest, limit);
+    fastStreak = 0;
+  };
+
+  const onThrottle = () => {
+    throttled++;
+    decrease(Math.floor(limit / 2));
+    pauseUntil = Math.max(pauseUntil, Date.now() + cooldownMs);
+  };
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      const durationMs = Date.now() - started;
+      resolve({
+        results,
+        stats: {
+          tasks: items.length,
+          errors,
+          throttled,
+          durationMs,
+          throughputPerSecond: durationMs > 0 ? (items.length / durationMs) * 1000 : items.length,
+          errorRate: items.length > 0 ? errors / items.length : 0,
+          avgLatencyMs: items.length > 0 ? totalLatency / items.length : 0,
+          concurrency: { initial, min: lowest, max: highest, final: limit },
+        },
+      });
+    };
+
+    const launch = (index: number) => {
+      inFlight++;
+      const taskStarted = Date.now();
+      let signalled = false;
+      const signals: AdaptiveTaskSignals = {
+        throttled: () => {
+          signalled = true;
+          onThrottle();
+        },
+      };
+      task(items[index], index, signals).then(
+        (result) => {
+          const latency = Date.now() - taskStarted;
+          results[index] = result;
+          totalLatency += latency;
+          if (options.isError(result)) errors++;
+          if (options.isThrottled?.(result) && !signalled) {
+            onThrottle();
+          } else if (latency > options.latencyThresholdMs) {
+            decrease(limit - 1);
+          } else if (!signalled && ++fastStreak >= limit && limit < max) {
+            limit++;
+            highest = Math.max(highest, limit);
+            fastStreak = 0;
+          }
+          inFlight--;
+          pump();
+        },
+        (error) => {
+          inFlight--;
+          failedWith = failedWith ?? error;
+          pump();
+        }
+      );
+    };
+
+    const pump = () => {
+      if (failedWith) {
+        if (inFlight === 0) reject(failedWith);
+        return;
+      }
+      if (next >= items.length) {
+        if (inFlight === 0) finish();
+        return;
+      }
+      const wait = pauseUntil - Date.now();
+      if (wait > 0) {
+        if (!pauseTimer) {
+          pauseTimer = setTimeout(() => {
+            pauseTimer = null;
+            pump();
+          }, wait);
+        }
+        return;
+      }
+      while (inFlight < limit && next < items.length) {
+        launch(next++);
+      }
+    };
+
+    pump();
+  });
+};
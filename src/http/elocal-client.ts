@@ -1,16 +1,77 @@
-import fetch from 'node-fetch';
 import * as TE from 'fp-ts/lib/TaskEither.js';
-import type { DateRange, ElocalApiResponse } from '../types/index.js';
+import { requestWithRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from './http-client.js';
+import { getElocalBaseUrl } from '../config/api-endpoints.js';
+import type { DateRange, ElocalApiResponse, RawApiCall } from '../types/index.js';
 
-const ELOCAL_BASE_URL = 'https://apis.elocal.com/affiliates/v2/campaign-results';
+/** eLocal range queries can be slow on multi-day ranges; allow a longer timeout per attempt */
+export const ELOCAL_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxRetries: 4,
+  timeoutMs: 60_000,
+};
 
 interface FetchOptions {
   sortBy?: string;
   sortOrder?: string;
+  /** Safety cap on pages followed for a single request (default 100) */
+  maxPages?: number;
+  /** Override the client's retry policy */
+  retryPolicy?: RetryPolicy;
 }
 
+/** Where to fetch the next page from, derived from the response body */
+type NextPage =
+  | { kind: 'url'; url: string }
+  | { kind: 'page'; page: number }
+  | { kind: 'offset'; offset: number }
+  | null;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Inspect a response body for pagination hints.
+ * eLocal has returned a bare array, { calls }, and { results } over time; paged responses carry
+ * either a next link, page/total_pages, or offset/total (top-level or under `meta`/`pagination`).
+ */
+const getNextPage = (data: unknown, received: number): NextPage => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+  const body = data as Record<string, any>;
+  const meta: Record<string, any> = body.meta || body.pagination || body;
+
+  const nextUrl = body.next || body.next_page_url || meta.next || meta.next_page_url || body.links?.next;
+  if (typeof nextUrl === 'string' && nextUrl.length > 0) {
+    return { kind: 'url', url: nextUrl };
+  }
+
+  const page = toNumber(meta.page ?? meta.current_page ?? meta.currentPage);
+  const totalPages = toNumber(meta.total_pages ?? meta.totalPages ?? meta.last_page);
+  if (page !== null && totalPages !== null) {
+    return page < totalPages ? { kind: 'page', page: page + 1 } : null;
+  }
+
+  const offset = toNumber(meta.offset);
+  const total = toNumber(meta.total ?? meta.total_count ?? meta.totalCount);
+  if (offset !== null && total !== null && received > 0) {
+    return offset + received < total ? { kind: 'offset', offset: offset + received } : null;
+  }
+
+  return null;
+};
+
+/**
+ * Pull the call records out of one response body (bare array, { calls } or { results }).
+ */
+export const extractCalls = (data: unknown): RawApiCall[] =>
+  Array.isArray(data) ? data : (data as any)?.calls || (data as any)?.results || [];
+
 /**
  * Fetch calls from eLocal API v2
+ * Follows any page/offset the API returns so the result holds every call in the range.
+ * Large ranges should be split with splitDateRange() and fetched chunk by chunk.
  *
  * @param apiKey - eLocal API Key
  * @param uuid - Campaign UUID
@@ -24,7 +85,7 @@ export const getElocalCalls =
         if (!apiKey) throw new Error('eLocal API Key is required');
         if (!uuid) throw new Error('Campaign UUID is required');
 
-        const url = new URL(`${ELOCAL_BASE_URL}/${uuid}/calls.json`);
+        const url = new URL(`${getElocalBaseUrl()}/${uuid}/calls.json`);
 
         // eLocal API v2 expects dates as yyyy-MM-dd (per API error message)
         const toYYYYMMDD = (value: string): string => {
@@ -67,30 +128,58 @@ export const getElocalCalls =
         url.searchParams.append('sortBy', options.sortBy || 'callStartTime');
         url.searchParams.append('sortOrder', options.sortOrder || 'desc');
 
-        console.log(`[eLocal] Fetching API: ${url.toString()}`);
+        const maxPages = options.maxPages ?? 100;
+        const calls: RawApiCall[] = [];
+        const pages: unknown[] = [];
+        let nextUrl: string | null = url.toString();
 
-        const response = await fetch(url.toString(), {
-          method: 'GET',
-          headers: {
-            'x-api-key': apiKey,
-            'Content-Type': 'application/json',
-          },
-        });
+        while (nextUrl) {
+          if (pages.length >= maxPages) {
+            throw new Error(`Exceeded ${maxPages} pages for ${url.toString()}; narrow the date range`);
+          }
 
-        if (!response.ok) {
-          const errorText = await response.text().catch(() => 'Unable to read error response');
-          throw new Error(`eLocal API error ${response.status}: ${errorText}`);
-        }
+          console.log(`[eLocal] Fetching API: ${nextUrl}`);
+
+          const response = await requestWithRetry(
+            nextUrl,
+            {
+              method: 'GET',
+              headers: {
+                'x-api-key': apiKey,
+                'Content-Type': 'application/json',
+              },
+            },
+            options.retryPolicy ?? ELOCAL_RETRY_POLICY,
+            'eLocal'
+          );
 
-        const data = await response.json();
+          const data = await response.json();
+          const pageCalls = extractCalls(data);
+          pages.push(data);
+          calls.push(...pageCalls);
 
-        // Handle different possible response formats
-        const calls = Array.isArray(data) ? data : (data as any).calls || (data as any).results || [];
+          const next = getNextPage(data, pageCalls.length);
+          if (!next || pageCalls.length === 0) {
+            nextUrl = null;
+          } else if (next.kind === 'url') {
+            nextUrl = new URL(next.url, url).toString();
+          } else {
+            const pageUrl = new URL(url.toString());
+            if (next.kind === 'page') pageUrl.searchParams.set('page', String(next.page));
+            else pageUrl.searchParams.set('offset', String(next.offset));
+            nextUrl = pageUrl.toString();
+          }
+        }
+
+        if (pages.length > 1) {
+          console.log(`[eLocal] Followed ${pages.length} pages (${calls.length} calls)`);
+        }
 
         return {
           calls,
           totalCalls: calls.length,
-          raw: data,
+          raw: pages.length === 1 ? pages[0] : pages,
+          pages,
         };
       },
       (error) => new Error(`Failed to fetch calls from eLocal API: ${(error as Error).message}`)
@@ -0,0 +1,144 @@
+/**
+ * Shared HTTP layer for the eLocal and Ringba clients.
+ * Adds per-request timeouts, retries with exponential backoff + jitter, Retry-After handling
+ * and a retryable/fatal classification of failures. Each client passes its own RetryPolicy.
+ */
+import fetch, { type RequestInit, type Response } from 'node-fetch';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles on every attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff / Retry-After wait */
+  maxDelayMs: number;
+  /** Abort a single attempt after this long */
+  timeoutMs: number;
+  /** HTTP statuses worth retrying (429 and 5xx by default) */
+  retryStatuses: number[];
+  /** Called before each retry with the failure being retried (e.g. to slow the caller down on 429) */
+  onRetry?: (failure: HttpError) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  timeoutMs: 30_000,
+  retryStatuses: [408, 425, 429, 500, 502, 503, 504],
+};
+
+/** Error raised for a failed request; `retryable` tells callers whether trying again could help */
+export class HttpError extends Error {
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly body: string | null;
+  readonly attempts: number;
+
+  constructor(message: string, opts: { status?: number | null; retryable: boolean; body?: string | null; attempts: number }) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = opts.status ?? null;
+    this.retryable = opts.retryable;
+    this.body = opts.body ?? null;
+    this.attempts = opts.attempts;
+  }
+}
+
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_SOCKET',
+]);
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export const parseRetryAfter = (header: string | null, now = Date.now()): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(header);
+  if (!Number.isNaN(at)) return Math.max(0, at - now);
+  return null;
+};
+
+/**
+ * Exponential backoff with full jitter: random delay in [0, base * 2^attempt], capped.
+ */
+export const backoffDelay = (policy: RetryPolicy, attempt: number): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryableNetworkError = (error: unknown): boolean => {
+  const e = error as { name?: string; code?: string; type?: string };
+  if (e?.name === 'AbortError') return true; // our own timeout
+  if (e?.type === 'request-timeout') return true;
+  return !!e?.code && RETRYABLE_NETWORK_CODES.has(e.code);
+};
+
+/**
+ * Perform a request under a retry policy.
+ * Resolves with the first 2xx response; rejects with HttpError once retries are exhausted
+ * or on a fatal (non-retryable) failure. Error bodies are read into the HttpError.
+ *
+ * @param label - Short client name used in log lines (e.g. "eLocal", "Ringba")
+ */
+export const requestWithRetry = async (
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  label = 'HTTP'
+): Promise<Response> => {
+  let attempt = 0;
+
+  while (true) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+    let waitMs: number;
+    let failure: HttpError;
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (response.ok) return response;
+
+      const body = await response.text().catch(() => 'Unable to read error response');
+      const retryable = policy.retryStatuses.includes(response.status);
+      failure = new HttpError(`${label} API error ${response.status}: ${body}`, {
+        status: response.status,
+        retryable,
+        body,
+        attempts: attempt + 1,
+      });
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      waitMs = retryAfter !== null ? Math.min(retryAfter, policy.maxDelayMs) : backoffDelay(policy, attempt);
+    } catch (error) {
+      const timedOut = (error as { name?: string })?.name === 'AbortError';
+      failure = new HttpError(
+        timedOut
+          ? `${label} request timed out after ${policy.timeoutMs}ms`
+          : `${label} request failed: ${(error as Error).message}`,
+        { retryable: isRetryableNetworkError(error), attempts: attempt + 1 }
+      );
+      waitMs = backoffDelay(policy, attempt);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!failure.retryable || attempt >= policy.maxRetries) {
+      throw failure;
+    }
+
+    attempt++;
+    policy.onRetry?.(failure);
+    console.warn(`[${label}] ${failure.message.slice(0, 200)} — retry ${attempt}/${policy.maxRetries} in ${waitMs}ms`);
+    await sleep(waitMs);
+  }
+};
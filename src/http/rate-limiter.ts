@@ -0,0 +1,50 @@
+/**
+ * Token-bucket rate limiter for outgoing API requests.
+ * Callers await take() before each request; concurrent callers share the bucket, so a single
+ * bucket caps the request rate across every fetch running against the same account.
+ */
+
+export interface TokenBucketOptions {
+  /** Sustained rate: tokens added per second */
+  refillPerSecond: number;
+  /** Burst size: the most tokens the bucket holds */
+  capacity: number;
+}
+
+export interface TokenBucket {
+  /** Resolve once a token is available (waiters are served in FIFO order) */
+  take(): Promise<void>;
+}
+
+export const createTokenBucket = ({ refillPerSecond, capacity }: TokenBucketOptions): TokenBucket => {
+  if (!(refillPerSecond > 0) || !(capacity >= 1)) {
+    throw new Error('Token bucket needs refillPerSecond > 0 and capacity >= 1');
+  }
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * refillPerSecond);
+    lastRefill = now;
+  };
+
+  const acquire = async (): Promise<void> => {
+    refill();
+    while (tokens < 1) {
+      await new Promise((r) => setTimeout(r, Math.ceil(((1 - tokens) / refillPerSecond) * 1000)));
+      refill();
+    }
+    tokens -= 1;
+  };
+
+  return {
+    take() {
+      // Chain acquisitions so waiters are served in order and never double-spend a token
+      const next = queue.then(acquire);
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+};
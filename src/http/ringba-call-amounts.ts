@@ -0,0 +1,90 @@
+/**
+ * Fetch the current conversion and payout amounts of Ringba calls by inbound call ID.
+ * Used by the cost sync to verify that payment overrides took effect.
+ */
+import * as TE from 'fp-ts/lib/TaskEither.js';
+import { requestWithRetry, type RetryPolicy } from './http-client.js';
+import { getRingbaBaseUrl } from '../config/api-endpoints.js';
+import { RINGBA_CALLLOG_RETRY_POLICY } from './ringba-target-calls.js';
+import type { TokenBucket } from './rate-limiter.js';
+
+export interface RingbaCallAmounts {
+  inboundCallId: string;
+  conversionAmount: number | null;
+  payoutAmount: number | null;
+}
+
+export interface GetCallAmountsOptions {
+  /** Call-log window containing the calls (Ringba requires one) */
+  startDate: Date;
+  endDate: Date;
+  retryPolicy?: RetryPolicy;
+  rateLimiter?: TokenBucket;
+}
+
+const amount = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Amounts for each requested call Ringba returns; calls outside the window are missing from the map.
+ */
+export const getCallAmounts =
+  (accountId: string, apiToken: string) =>
+  (inboundCallIds: string[], options: GetCallAmountsOptions) =>
+    TE.tryCatch(
+      async (): Promise<Map<string, RingbaCallAmounts>> => {
+        if (!accountId || !apiToken) throw new Error('Ringba accountId and apiToken are required');
+        const found = new Map<string, RingbaCallAmounts>();
+        if (inboundCallIds.length === 0) return found;
+
+        const body = {
+          reportStart: options.startDate.toISOString(),
+          reportEnd: options.endDate.toISOString(),
+          offset: 0,
+          size: inboundCallIds.length,
+          valueColumns: [{ column: 'inboundCallId' }, { column: 'conversionAmount' }, { column: 'payoutAmount' }],
+          filters: [
+            {
+              anyConditionToMatch: inboundCallIds.map((id) => ({
+                column: 'inboundCallId',
+                comparisonType: 'EQUALS' as const,
+                value: id,
+                isNegativeMatch: false,
+              })),
+            },
+          ],
+          formatDateTime: true,
+        };
+
+        await options.rateLimiter?.take();
+        const response = await requestWithRetry(
+          `${getRingbaBaseUrl()}/${accountId}/calllogs`,
+          {
+            method: 'POST',
+            headers: {
+              Authorization: `Token ${apiToken}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+          },
+          options.retryPolicy ?? RINGBA_CALLLOG_RETRY_POLICY,
+          'Ringba'
+        );
+
+        const data = (await response.json()) as { report?: { records?: unknown[] } };
+        for (const record of (data.report?.records ?? []) as Array<Record<string, unknown>>) {
+          const inboundCallId = record.inboundCallId ? String(record.inboundCallId) : null;
+          if (!inboundCallId) continue;
+          found.set(inboundCallId, {
+            inboundCallId,
+            conversionAmount: amount(record.conversionAmount),
+            payoutAmount: amount(record.payoutAmount),
+          });
+        }
+        return found;
+      },
+      (e) => new Error(`Failed to fetch call amounts: ${(e as Error).message}`)
+    );
@@ -1,6 +1,17 @@
 // Ringba API client for payment updates
 
-const RINGBA_BASE_URL = 'https://api.ringba.com/v2';
+import { requestWithRetry, DEFAULT_RETRY_POLICY, HttpError, type RetryPolicy } from './http-client.js';
+import { getRingbaBaseUrl } from '../config/api-endpoints.js';
+
+/**
+ * Payment overrides set absolute amounts, so replaying one is harmless.
+ * Keep the retry budget small — Step 4 of cost sync sends many of these back to back.
+ */
+export const RINGBA_OVERRIDE_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxRetries: 3,
+  timeoutMs: 20_000,
+};
 
 /** Payload for Ringba payment override API */
 export interface RingbaPaymentOverridePayload {
@@ -15,8 +26,53 @@ export interface RingbaPaymentUpdateResult {
   success: boolean;
   data?: any;
   error?: string;
+  /** False when the failure is fatal (e.g. 4xx validation) and retrying later will not help */
+  retryable?: boolean;
+  /** HTTP status of the last attempt, when a response was received */
+  status?: number | null;
+  /** Error response body, when one was received */
+  errorBody?: string | null;
 }
 
+/**
+ * Request body for POST /calls/payments/override.
+ */
+export const buildPaymentOverrideBody = (
+  inboundCallId: string,
+  payload: RingbaPaymentOverridePayload
+): Record<string, unknown> => {
+  const body: any = {
+    inboundCallId,
+    reason: payload.reason || 'Call payments adjusted by eLocal sync service.'
+  };
+
+  // Include targetId if provided (required by Ringba API for some accounts)
+  if (payload.targetId) {
+    body.targetId = payload.targetId;
+  }
+
+  // Set adjustConversion and adjustPayout flags based on what we're updating
+  if (payload.newConversionAmount !== undefined) {
+    body.adjustConversion = true;
+    body.newConversionAmount = typeof payload.newConversionAmount === 'string'
+      ? parseFloat(payload.newConversionAmount)
+      : Number(payload.newConversionAmount);
+  } else {
+    body.adjustConversion = false;
+  }
+
+  if (payload.newPayoutAmount !== undefined) {
+    body.adjustPayout = true;
+    body.newPayoutAmount = typeof payload.newPayoutAmount === 'string'
+      ? parseFloat(payload.newPayoutAmount)
+      : Number(payload.newPayoutAmount);
+  } else {
+    body.adjustPayout = false;
+  }
+
+  return body;
+};
+
 /**
  * Update call payment in Ringba dashboard
  * Uses the /calls/payments/override endpoint
@@ -25,13 +81,15 @@ export interface RingbaPaymentUpdateResult {
  * @param apiToken - Ringba API token
  * @param inboundCallId - The inbound call ID to update
  * @param payload - Payment update payload
+ * @param retryPolicy - Retry policy for this request (defaults to RINGBA_OVERRIDE_RETRY_POLICY)
  * @returns Promise with update result
  */
 export const updateCallPayment = async (
   accountId: string,
   apiToken: string,
   inboundCallId: string,
-  payload: RingbaPaymentOverridePayload
+  payload: RingbaPaymentOverridePayload,
+  retryPolicy: RetryPolicy = RINGBA_OVERRIDE_RETRY_POLICY
 ): Promise<RingbaPaymentUpdateResult> => {
   try {
     if (!inboundCallId) {
@@ -43,46 +101,24 @@ export const updateCallPayment = async (
     }
 
     // Use the correct /calls/payments/override endpoint
-    const url = `${RINGBA_BASE_URL}/${accountId}/calls/payments/override`;
+    const url = `${getRingbaBaseUrl()}/${accountId}/calls/payments/override`;
     const headers = {
       'Authorization': `Token ${apiToken}`,
       'Content-Type': 'application/json'
     };
 
-    const body: any = {
-      inboundCallId,
-      reason: payload.reason || 'Call payments adjusted by eLocal sync service.'
-    };
-
-    // Include targetId if provided (required by Ringba API for some accounts)
-    if (payload.targetId) {
-      body.targetId = payload.targetId;
-    }
-
-    // Set adjustConversion and adjustPayout flags based on what we're updating
-    if (payload.newConversionAmount !== undefined) {
-      body.adjustConversion = true;
-      body.newConversionAmount = typeof payload.newConversionAmount === 'string'
-        ? parseFloat(payload.newConversionAmount)
-        : Number(payload.newConversionAmount);
-    } else {
-      body.adjustConversion = false;
-    }
-
-    if (payload.newPayoutAmount !== undefined) {
-      body.adjustPayout = true;
-      body.newPayoutAmount = typeof payload.newPayoutAmount === 'string'
-        ? parseFloat(payload.newPayoutAmount)
-        : Number(payload.newPayoutAmount);
-    } else {
-      body.adjustPayout = false;
-    }
+    const body = buildPaymentOverrideBody(inboundCallId, payload);
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body)
-    });
+    const response = await requestWithRetry(
+      url,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body)
+      },
+      retryPolicy,
+      'Ringba'
+    );
 
     const text = await response.text();
     let json: any;
@@ -92,38 +128,18 @@ export const updateCallPayment = async (
       json = { raw: text };
     }
 
-    if (!response.ok) {
-      throw new Error(`Ringba API error ${response.status}: ${text}`);
-    }
-
     return {
       success: true,
-      data: json
+      data: json,
+      status: response.status
     };
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : String(error)
+      error: error instanceof Error ? error.message : String(error),
+      retryable: error instanceof HttpError ? error.retryable : false,
+      status: error instanceof HttpError ? error.status : null,
+      errorBody: error instanceof HttpError ? error.body : null
     };
   }
 };
-
-/**
- * Get category from Ringba target ID
- * Based on target name: "Static Line" -> STATIC, otherwise -> API
- */
-export const getCategoryFromTargetId = (targetId: string | null): 'STATIC' | 'API' => {
-  if (!targetId) return 'API';
-  
-  // Define known target IDs
-  const TARGET_IDS: Record<string, string> = {
-    'TA48aa3e3f5a0544af8549703f76a24faa': 'Elocal - Appliance repair - Static Line',
-    'PI1175ac62aa1c4748b21216666b398135': 'Elocal - Appliance Repair'
-  };
-  
-  const targetName = TARGET_IDS[targetId] || targetId;
-  if (targetName && targetName.toLowerCase().includes('static')) {
-    return 'STATIC';
-  }
-  return 'API';
-};
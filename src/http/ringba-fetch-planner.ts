@@ -0,0 +1,162 @@
+/**
+ * Parallel Ringba call-log fetching for a set of (target, day) chunks.
+ * Chunks run concurrently up to a configurable limit; every page request takes a token from one
+ * bucket per Ringba account, so the account's request rate stays within budget however many
+ * chunks are in flight. Calls seen in more than one chunk are deduped by inboundCallId.
+ */
+import { getCallsByTargetId, type RingbaCallRecord } from './ringba-target-calls.js';
+import { createTokenBucket, type TokenBucket } from './rate-limiter.js';
+
+export interface RingbaFetchChunk {
+  targetId: string;
+  /** Day key (YYYY-MM-DD) the window belongs to */
+  day: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface RingbaFetchChunkResult extends RingbaFetchChunk {
+  /** All records the chunk returned (before cross-chunk dedupe) */
+  calls: RingbaCallRecord[];
+  error: Error | null;
+}
+
+export interface RingbaFetchPlanOptions {
+  /** Chunks fetched at the same time (default RINGBA_FETCH_CONCURRENCY or 4) */
+  concurrency?: number;
+  /** Page requests per second for the account (default RINGBA_REQUESTS_PER_SECOND or 5) */
+  requestsPerSecond?: number;
+  pageSize?: number;
+}
+
+export interface RingbaFetchPlanResult {
+  chunks: RingbaFetchChunkResult[];
+  /** Calls across all chunks, first occurrence per inboundCallId */
+  calls: RingbaCallRecord[];
+  duplicates: number;
+  failedChunks: number;
+  durationMs: number;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_REQUESTS_PER_SECOND = 5;
+
+const positiveNumber = (value: unknown, fallback: number): number => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+// One budget per account, shared by every plan running in this process
+const accountBuckets = new Map<string, { rate: number; bucket: TokenBucket }>();
+
+const getAccountBucket = (accountId: string, requestsPerSecond: number): TokenBucket => {
+  const existing = accountBuckets.get(accountId);
+  if (existing && existing.rate === requestsPerSecond) return existing.bucket;
+  const bucket = createTokenBucket({
+    refillPerSecond: requestsPerSecond,
+    capacity: Math.max(1, Math.ceil(requestsPerSecond)),
+  });
+  accountBuckets.set(accountId, { rate: requestsPerSecond, bucket });
+  return bucket;
+};
+
+/**
+ * One chunk per (target, EST day) from startDay to endDay inclusive.
+ * Day windows run 00:00–23:59:59.999 EST (05:00 UTC to 04:59:59.999 UTC the next day).
+ */
+export const planTargetDayChunks = (targetIds: string[], startDay: Date, endDay: Date): RingbaFetchChunk[] => {
+  const chunks: RingbaFetchChunk[] = [];
+  const last = new Date(endDay);
+  last.setHours(0, 0, 0, 0);
+  for (let d = new Date(startDay); d <= last; d.setDate(d.getDate() + 1)) {
+    const y = d.getFullYear();
+    const m = d.getMonth();
+    const day = d.getDate();
+    const dayKey = `${y}-${String(m + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    for (const targetId of targetIds) {
+      chunks.push({
+        targetId,
+        day: dayKey,
+        startDate: new Date(Date.UTC(y, m, day, 5, 0, 0, 0)),
+        endDate: new Date(Date.UTC(y, m, day + 1, 4, 59, 59, 999)),
+      });
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Fetch every chunk with bounded concurrency under the account's token budget.
+ * A failed chunk is reported with its error and does not stop the others.
+ */
+export const fetchRingbaChunks = async (
+  accountId: string,
+  apiToken: string,
+  chunks: RingbaFetchChunk[],
+  options: RingbaFetchPlanOptions = {}
+): Promise<RingbaFetchPlanResult> => {
+  const started = Date.now();
+  const concurrency = Math.floor(
+    positiveNumber(options.concurrency ?? process.env.RINGBA_FETCH_CONCURRENCY, DEFAULT_CONCURRENCY)
+  ) || 1;
+  const requestsPerSecond = positiveNumber(
+    options.requestsPerSecond ?? process.env.RINGBA_REQUESTS_PER_SECOND,
+    DEFAULT_REQUESTS_PER_SECOND
+  );
+  const rateLimiter = getAccountBucket(accountId, requestsPerSecond);
+  const fetchTarget = getCallsByTargetId(accountId, apiToken);
+
+  const results: RingbaFetchChunkResult[] = new Array(chunks.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < chunks.length) {
+      const index = nextIndex++;
+      const chunk = chunks[index];
+      const resultEither = await fetchTarget(chunk.targetId, {
+        startDate: chunk.startDate,
+        endDate: chunk.endDate,
+        pageSize: options.pageSize ?? 1000,
+        rateLimiter,
+      })();
+      if (resultEither._tag === 'Left') {
+        console.error(`[Ringba Fetch] Failed target ${chunk.targetId} ${chunk.day}:`, resultEither.left.message);
+        results[index] = { ...chunk, calls: [], error: resultEither.left };
+      } else {
+        results[index] = { ...chunk, calls: resultEither.right.calls, error: null };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, () => worker()));
+
+  const seen = new Set<string>();
+  const calls: RingbaCallRecord[] = [];
+  let duplicates = 0;
+  for (const result of results) {
+    for (const call of result.calls) {
+      if (call.inboundCallId) {
+        if (seen.has(call.inboundCallId)) {
+          duplicates++;
+          continue;
+        }
+        seen.add(call.inboundCallId);
+      }
+      calls.push(call);
+    }
+  }
+
+  const durationMs = Date.now() - started;
+  console.log(
+    `[Ringba Fetch] ${chunks.length} chunk(s), concurrency ${concurrency}, ${requestsPerSecond} req/s: ` +
+      `${calls.length} calls (${duplicates} duplicate(s) dropped) in ${(durationMs / 1000).toFixed(1)}s`
+  );
+
+  return {
+    chunks: results,
+    calls,
+    duplicates,
+    failedChunks: results.filter((r) => r.error).length,
+    durationMs,
+  };
+};
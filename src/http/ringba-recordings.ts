@@ -0,0 +1,91 @@
+/**
+ * Fetch recording URLs and transcripts for Ringba calls by inbound call ID.
+ * Used by the recording ingestion step of the Ringba original sync.
+ */
+import * as TE from 'fp-ts/lib/TaskEither.js';
+import { requestWithRetry, type RetryPolicy } from './http-client.js';
+import { getRingbaBaseUrl } from '../config/api-endpoints.js';
+import { RINGBA_CALLLOG_RETRY_POLICY } from './ringba-target-calls.js';
+import type { TokenBucket } from './rate-limiter.js';
+
+export interface RingbaRecordingInfo {
+  inboundCallId: string;
+  recordingUrl: string | null;
+  transcript: string | null;
+}
+
+export interface GetCallRecordingsOptions {
+  /** Call-log window containing the calls (Ringba requires one) */
+  startDate: Date;
+  endDate: Date;
+  retryPolicy?: RetryPolicy;
+  rateLimiter?: TokenBucket;
+}
+
+const text = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  const s = String(value).trim();
+  return s === '' ? null : s;
+};
+
+/**
+ * Recording URL and transcript for each requested call Ringba returns. Calls without a finished
+ * recording or transcript come back with null fields (or not at all).
+ */
+export const getCallRecordings =
+  (accountId: string, apiToken: string) =>
+  (inboundCallIds: string[], options: GetCallRecordingsOptions) =>
+    TE.tryCatch(
+      async (): Promise<Map<string, RingbaRecordingInfo>> => {
+        if (!accountId || !apiToken) throw new Error('Ringba accountId and apiToken are required');
+        const found = new Map<string, RingbaRecordingInfo>();
+        if (inboundCallIds.length === 0) return found;
+
+        const body = {
+          reportStart: options.startDate.toISOString(),
+          reportEnd: options.endDate.toISOString(),
+          offset: 0,
+          size: inboundCallIds.length,
+          valueColumns: [{ column: 'inboundCallId' }, { column: 'recordingUrl' }, { column: 'transcription' }],
+          filters: [
+            {
+              anyConditionToMatch: inboundCallIds.map((id) => ({
+                column: 'inboundCallId',
+                comparisonType: 'EQUALS' as const,
+                value: id,
+                isNegativeMatch: false,
+              })),
+            },
+          ],
+          formatDateTime: true,
+        };
+
+        await options.rateLimiter?.take();
+        const response = await requestWithRetry(
+          `${getRingbaBaseUrl()}/${accountId}/calllogs`,
+          {
+            method: 'POST',
+            headers: {
+              Authorization: `Token ${apiToken}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+          },
+          options.retryPolicy ?? RINGBA_CALLLOG_RETRY_POLICY,
+          'Ringba'
+        );
+
+        const data = (await response.json()) as { report?: { records?: unknown[] } };
+        for (const record of (data.report?.records ?? []) as Array<Record<string, unknown>>) {
+          const inboundCallId = text(record.inboundCallId);
+          if (!inboundCallId) continue;
+          found.set(inboundCallId, {
+            inboundCallId,
+            recordingUrl: text(record.recordingUrl),
+            transcript: text(record.transcription),
+          });
+        }
+        return found;
+      },
+      (e) => new Error(`Failed to fetch call recordings: ${(e as Error).message}`)
+    );
@@ -2,24 +2,56 @@
  * Fetch calls from Ringba API filtered by target ID.
  * Used by Ringba Original Sync service.
  */
-import fetch from 'node-fetch';
 import * as TE from 'fp-ts/lib/TaskEither.js';
+import { requestWithRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from './http-client.js';
+import { getRingbaBaseUrl } from '../config/api-endpoints.js';
+import { getRingbaTargets, getCategoryForTarget } from '../config/campaign-registry.js';
+import type { TokenBucket } from './rate-limiter.js';
+import type { Category } from '../types/index.js';
+
+/** Call-log reads are safe to retry; Ringba rate-limits per account so back off generously */
+export const RINGBA_CALLLOG_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxRetries: 5,
+  baseDelayMs: 1000,
+};
 
-const RINGBA_BASE_URL = 'https://api.ringba.com/v2';
+/** Call-log columns mapped onto the typed fields of RingbaCallRecord; always requested */
+export const BASE_CALLLOG_COLUMNS = [
+  'inboundCallId',
+  'callDt',
+  'targetName',
+  'targetId',
+  'conversionAmount',
+  'payoutAmount',
+  'callLengthInSeconds',
+  'inboundPhoneNumber',
+  'tag:InboundNumber:Number',
+  'campaignName',
+  'publisherName',
+] as const;
 
-export const TARGET_IDS: Record<string, string> = {
-  TA48aa3e3f5a0544af8549703f76a24faa: 'Elocal - Appliance repair - Static Line',
-  PI1175ac62aa1c4748b21216666b398135: 'Elocal - Appliance Repair',
+/**
+ * Additional call-log columns to request, from RINGBA_CALLLOG_COLUMNS (comma-separated, e.g.
+ * "hasConverted,isDuplicate,endCallSource,timeToConnect,tag:CallInfo:IsDuplicate").
+ * Their values are returned in RingbaCallRecord.extra.
+ */
+export const getExtraCallLogColumns = (): string[] => {
+  const configured = (process.env.RINGBA_CALLLOG_COLUMNS || '')
+    .split(',')
+    .map((c) => c.trim())
+    .filter(Boolean);
+  return [...new Set(configured)].filter((c) => !(BASE_CALLLOG_COLUMNS as readonly string[]).includes(c));
 };
 
+/** Ringba target ID -> name for every enabled campaign in the registry */
+export const getTargetIds = (): Record<string, string> => getRingbaTargets();
+
 export const getTargetName = (targetId: string): string =>
-  TARGET_IDS[targetId] ?? targetId;
+  getRingbaTargets()[targetId] ?? targetId;
 
-export const getCategoryFromTargetId = (targetId: string): 'STATIC' | 'API' => {
-  const name = getTargetName(targetId);
-  if (name && name.toLowerCase().includes('static')) return 'STATIC';
-  return 'API';
-};
+/** Category of the campaign that owns the target, or null for unregistered targets */
+export const getCategoryFromTargetId = (targetId: string): Category | null => getCategoryForTarget(targetId);
 
 export interface RingbaCallRecord {
   inboundCallId: string | null;
@@ -34,12 +66,20 @@ export interface RingbaCallRecord {
   callerId: string | null;
   campaignName: string | null;
   publisherName: string | null;
+  /** Values of the extra requested columns (see getExtraCallLogColumns), keyed by column name */
+  extra?: Record<string, unknown>;
 }
 
 export interface GetCallsByTargetIdOptions {
   startDate?: string | Date;
   endDate?: string | Date;
   pageSize?: number;
+  /** Override the client's retry policy */
+  retryPolicy?: RetryPolicy;
+  /** Shared request budget; when set, each page waits for a token instead of a fixed pause */
+  rateLimiter?: TokenBucket;
+  /** Columns to request on top of BASE_CALLLOG_COLUMNS (default getExtraCallLogColumns()) */
+  extraColumns?: string[];
 }
 
 export interface GetCallsByTargetIdResult {
@@ -85,32 +125,23 @@ export const getCallsByTargetId =
         }
 
         const pageSize = Math.min(options.pageSize ?? 100, 1000);
+        const extraColumns = (options.extraColumns ?? getExtraCallLogColumns()).filter(
+          (c) => !(BASE_CALLLOG_COLUMNS as readonly string[]).includes(c)
+        );
         const allCalls: RingbaCallRecord[] = [];
         let offset = 0;
         let hasMore = true;
         let totalRecords = 0;
 
         while (hasMore) {
-          const url = `${RINGBA_BASE_URL}/${accountId}/calllogs`;
+          const url = `${getRingbaBaseUrl()}/${accountId}/calllogs`;
           const body = {
             reportStart: startDate!.toISOString(),
             reportEnd: endDate!.toISOString(),
             offset,
             size: pageSize,
             orderByColumns: [{ column: 'callDt', direction: 'desc' as const }],
-            valueColumns: [
-              { column: 'inboundCallId' },
-              { column: 'callDt' },
-              { column: 'targetName' },
-              { column: 'targetId' },
-              { column: 'conversionAmount' },
-              { column: 'payoutAmount' },
-              { column: 'callLengthInSeconds' },
-              { column: 'inboundPhoneNumber' },
-              { column: 'tag:InboundNumber:Number' },
-              { column: 'campaignName' },
-              { column: 'publisherName' },
-            ],
+            valueColumns: [...BASE_CALLLOG_COLUMNS, ...extraColumns].map((column) => ({ column })),
             filters: [
               {
                 anyConditionToMatch: [
@@ -126,19 +157,20 @@ export const getCallsByTargetId =
             formatDateTime: true,
           };
 
-          const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-              Authorization: `Token ${apiToken}`,
-              'Content-Type': 'application/json',
+          await options.rateLimiter?.take();
+          const response = await requestWithRetry(
+            url,
+            {
+              method: 'POST',
+              headers: {
+                Authorization: `Token ${apiToken}`,
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify(body),
             },
-            body: JSON.stringify(body),
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text().catch(() => 'Unable to read error response');
-            throw new Error(`Ringba API error ${response.status}: ${errorText}`);
-          }
+            options.retryPolicy ?? RINGBA_CALLLOG_RETRY_POLICY,
+            'Ringba'
+          );
 
           const data = (await response.json()) as {
             report?: { records?: unknown[]; totalCount?: number; total?: number };
@@ -172,6 +204,9 @@ export const getCallsByTargetId =
               callerId: (record['tag:InboundNumber:Number'] as string) ?? null,
               campaignName: (record.campaignName as string) ?? null,
               publisherName: (record.publisherName as string) ?? null,
+              ...(extraColumns.length > 0
+                ? { extra: Object.fromEntries(extraColumns.map((c) => [c, record[c] ?? null])) }
+                : {}),
             });
           }
 
@@ -181,7 +216,7 @@ export const getCallsByTargetId =
           } else {
             offset += pageSize;
           }
-          if (hasMore) {
+          if (hasMore && !options.rateLimiter) {
             await new Promise((r) => setTimeout(r, 100));
           }
         }
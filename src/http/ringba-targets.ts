@@ -0,0 +1,50 @@
+/**
+ * List the targets configured in a Ringba account.
+ * Used by Ringba target discovery to keep ringba_targets in step with Ringba.
+ */
+import * as TE from 'fp-ts/lib/TaskEither.js';
+import { requestWithRetry, type RetryPolicy } from './http-client.js';
+import { getRingbaBaseUrl } from '../config/api-endpoints.js';
+import { RINGBA_CALLLOG_RETRY_POLICY } from './ringba-target-calls.js';
+
+export interface RingbaTargetInfo {
+  id: string;
+  name: string;
+  /** Whether the target is enabled in Ringba itself */
+  enabled: boolean;
+}
+
+export const listRingbaTargets = (
+  accountId: string,
+  apiToken: string,
+  retryPolicy: RetryPolicy = RINGBA_CALLLOG_RETRY_POLICY
+) =>
+  TE.tryCatch(
+    async (): Promise<RingbaTargetInfo[]> => {
+      if (!accountId || !apiToken) throw new Error('Ringba accountId and apiToken are required');
+
+      const response = await requestWithRetry(
+        `${getRingbaBaseUrl()}/${accountId}/targets`,
+        {
+          method: 'GET',
+          headers: { Authorization: `Token ${apiToken}` },
+        },
+        retryPolicy,
+        'Ringba'
+      );
+
+      const data = (await response.json()) as unknown;
+      const records = (
+        Array.isArray(data) ? data : ((data as { targets?: unknown[] })?.targets ?? [])
+      ) as Array<Record<string, unknown>>;
+
+      return records
+        .filter((t) => t.id)
+        .map((t) => ({
+          id: String(t.id),
+          name: String(t.name ?? t.id),
+          enabled: t.enabled !== false,
+        }));
+    },
+    (error) => error as Error
+  );
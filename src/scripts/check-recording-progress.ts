@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+/**
+ * Report recording/transcript coverage of ringba_call_data for a date range.
+ *
+ * Usage:
+ *   npx tsx src/scripts/check-recording-progress.ts <start YYYY-MM-DD> [end YYYY-MM-DD] [category]
+ */
+import { createNeonDbOps } from '../database/neon-operations.js';
+import dotenv from 'dotenv';
+import { join } from 'path';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+const pct = (part: number, whole: number): string => (whole > 0 ? ((part / whole) * 100).toFixed(1) : '0.0');
+
+async function main() {
+  const [startArg, endArg, categoryArg] = process.argv.slice(2);
+  if (!startArg || !/^\d{4}-\d{2}-\d{2}$/.test(startArg)) {
+    console.error('Usage: npx tsx src/scripts/check-recording-progress.ts <start YYYY-MM-DD> [end YYYY-MM-DD] [category]');
+    process.exit(1);
+  }
+  const endStr = endArg && /^\d{4}-\d{2}-\d{2}$/.test(endArg) ? endArg : startArg;
+  const category = (endArg && !/^\d{4}-\d{2}-\d{2}$/.test(endArg) ? endArg : categoryArg) ?? null;
+
+  const db = createNeonDbOps();
+  const progress = await db.getRecordingProgress(
+    new Date(`${startArg}T00:00:00Z`),
+    new Date(`${endStr}T00:00:00Z`),
+    category
+  );
+
+  console.log(`\n${startArg} to ${endStr}${category ? ` (${category})` : ''} recording/transcript progress:`);
+  console.log(`  Total records: ${progress.total}`);
+  console.log(`  Records with ringba_id: ${progress.withRingbaId}`);
+  console.log(`  Records with recordingUrl: ${progress.withRecording}`);
+  console.log(`  Records with transcript: ${progress.withTranscript}`);
+  console.log(`  Waiting on Ringba (retry pending): ${progress.pending}`);
+  console.log(`  Given up (no recording): ${progress.unavailable}`);
+  console.log(`  Progress: ${pct(progress.withTranscript, progress.withRingbaId)}% of calls with a ringba_id\n`);
+}
+
+main();
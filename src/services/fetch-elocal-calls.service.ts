@@ -2,18 +2,32 @@
  * Fetch eLocal Calls Service
  *
  * Fetches call data from eLocal API v2 for a given date range, processes and
- * deduplicates, and persists to Neon DB. Supports historical, current-day,
- * and custom date ranges; STATIC and API categories.
+ * deduplicates, and persists to Neon DB. Ranges are fetched in day chunks and
+ * checkpointed so a failed backfill resumes from the last finished chunk. Supports historical, current-day,
+ * and custom date ranges; STATIC and API categories. With config.dryRun nothing is written; the run
+ * reports which rows would be inserted or updated and which fields would change.
  */
-import { createNeonDbOps } from '../database/neon-operations.js';
+import { createNeonDbOps, type NeonDbOps } from '../database/neon-operations.js';
 import { getElocalCalls } from '../http/elocal-client.js';
-import { processAdjustmentDetails, processCampaignCalls, createSession } from '../utils/helpers.js';
+import {
+  processAdjustmentDetails,
+  processCampaignCalls,
+  extractCallAdjustments,
+  createSession,
+  hashResultSet,
+  watermarksEnabled,
+} from '../utils/helpers.js';
+import { partitionRawApiCalls } from '../utils/elocal-call-validator.js';
+import { getCampaign } from '../config/campaign-registry.js';
+import { summarizeFetchDiff, printFetchDiffSummary, writeFetchDiffFile } from '../utils/fetch-diff-report.js';
 import {
   getPast10DaysRange,
   getCurrentDayRange,
   getCurrentDayRangeWithTimezone,
   getDateRangeDescription,
   getServiceScheduleInfo,
+  splitDateRange,
+  formatDateForURL,
 } from '../utils/date-utils.js';
 import type {
   Config,
@@ -22,9 +36,248 @@ import type {
   Category,
   ScrapingResult,
   ElocalCall,
-  RawApiCall,
+  ElocalCallDiff,
 } from '../types/index.js';
 
+interface SaveContext {
+  sessionId: string;
+  campaignUuid: string;
+  category: Category;
+  includeAdjustments: boolean;
+  /** Compare against the database instead of writing */
+  dryRun?: boolean;
+  /** Skip the write phase when the chunk's result set matches its sync watermark */
+  useWatermarks?: boolean;
+}
+
+interface SaveResult {
+  processedCalls: ElocalCall[];
+  callsInserted: number;
+  callsUpdated: number;
+  adjustmentsInserted: number;
+  quarantined: number;
+  /** Dry runs only: per-call preview of the upsert */
+  diff: ElocalCallDiff[];
+  /** Writes that failed but were logged and skipped (quarantine, adjustments); the chunk is incomplete */
+  partialFailures: string[];
+}
+
+/**
+ * Validate, process and persist raw eLocal records.
+ * Shared by the live fetch and by offline replay of archived responses.
+ */
+export const saveRawCalls = async (db: NeonDbOps, rawCalls: unknown[], ctx: SaveContext): Promise<SaveResult> => {
+  const { sessionId, campaignUuid, category, includeAdjustments, dryRun = false } = ctx;
+  const { calls: mappedCalls, rejected } = partitionRawApiCalls(rawCalls, category);
+
+  const quarantined = rejected.length;
+  const partialFailures: string[] = [];
+  if (rejected.length > 0) {
+    console.warn(`[WARN] ${rejected.length} of ${rawCalls.length} records failed validation; quarantining`);
+    rejected.slice(0, 3).forEach((r) => console.warn(`         - ${r.reasons.join('; ')}`));
+    if (!dryRun) {
+      try {
+        await db.insertQuarantinedRecords({ sessionId, campaignUuid, category }, rejected);
+      } catch (error) {
+        console.warn('[WARN] Failed to save quarantined records:', (error as Error).message);
+        partialFailures.push(`quarantine: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  console.log(`[INFO] Fetched ${mappedCalls.length} calls from API`);
+
+  const processedCalls = processCampaignCalls(mappedCalls);
+  const processedAdjustments = includeAdjustments
+    ? processAdjustmentDetails(extractCallAdjustments(processedCalls))
+    : [];
+
+  processedCalls.forEach((call) => {
+    if (!call.category) {
+      call.category = category;
+    }
+  });
+
+  console.log(`[INFO] Processed ${processedCalls.length} campaign calls (category: ${category})`);
+  if (processedCalls.length > 0) {
+    console.log(`[INFO] Sample call category: ${processedCalls[0].category}`);
+  }
+  if (includeAdjustments) {
+    console.log(`[INFO] Parsed ${processedAdjustments.length} adjustment rows`);
+  }
+
+  if (dryRun) {
+    console.log(`[DRY RUN] Comparing ${processedCalls.length} calls with the database (nothing will be written)`);
+    if (includeAdjustments && processedAdjustments.length > 0) {
+      console.log(`[DRY RUN] ${processedAdjustments.length} adjustment rows would be checked against adjustment_details`);
+    }
+    const diff = await db.previewCallsBatch(processedCalls);
+    return {
+      processedCalls,
+      callsInserted: diff.filter((d) => d.action === 'insert').length,
+      callsUpdated: diff.filter((d) => d.action === 'update').length,
+      adjustmentsInserted: 0,
+      quarantined,
+      diff,
+      partialFailures,
+    };
+  }
+
+  console.log('[INFO] Saving data to database...');
+  console.log(`[INFO] ${category} category: Using eLocal data only (no Ringba lookups)`);
+  console.log(`[INFO] Note: eLocal timestamps (EST) are converted to UTC before saving`);
+
+  let adjustmentsInserted = 0;
+  if (includeAdjustments && processedAdjustments.length > 0) {
+    try {
+      const adjustmentsResult = await db.insertAdjustmentsBatch(processedAdjustments);
+      adjustmentsInserted = adjustmentsResult.inserted || 0;
+      console.log(
+        `[SUCCESS] Saved ${adjustmentsResult.inserted || 0} adjustment details to adjustment_details table (${adjustmentsResult.skipped || 0} skipped as duplicates)`
+      );
+    } catch (error) {
+      console.warn(
+        '[WARN] Failed to save adjustment details to adjustment_details table:',
+        (error as Error).message
+      );
+      partialFailures.push(`adjustments: ${(error as Error).message}`);
+    }
+  }
+
+  let callsInserted = 0;
+  let callsUpdated = 0;
+
+  let callsMerged = processedCalls;
+
+  if (!includeAdjustments) {
+    callsMerged = processedCalls.map((c) => ({
+      ...c,
+      category: c.category || category,
+    }));
+    console.log(`[INFO] API category: Prepared ${callsMerged.length} calls for database (category: ${category})`);
+  }
+
+  if (callsMerged.length > 0) {
+    const categoryCounts = callsMerged.reduce(
+      (acc, c) => {
+        acc[c.category || 'null'] = (acc[c.category || 'null'] || 0) + 1;
+        return acc;
+      },
+      {} as Record<string, number>
+    );
+    console.log(`[INFO] About to save ${callsMerged.length} calls with categories:`, categoryCounts);
+
+    const callsResult = await db.insertCallsBatch(callsMerged, sessionId);
+    callsInserted = callsResult.inserted || 0;
+    callsUpdated = callsResult.updated || 0;
+  } else {
+    console.log(`[WARN] No calls to save for category: ${category}`);
+  }
+
+  return {
+    processedCalls: callsMerged,
+    callsInserted,
+    callsUpdated,
+    adjustmentsInserted,
+    quarantined,
+    diff: [],
+    partialFailures,
+  };
+};
+
+/**
+ * Fetch one chunk of the range from eLocal, archive the raw response, process it and persist it.
+ * Each chunk is saved before the next is fetched so a failure only loses the chunk in flight.
+ * A chunk whose result set hashes the same as its last sync watermark is processed for the
+ * summary but not written (no archive, quarantine, adjustments or upserts). The watermark is only
+ * saved when every write of the chunk succeeded.
+ */
+const fetchAndSaveChunk = async (
+  db: NeonDbOps,
+  apiKey: string,
+  chunk: DateRange,
+  ctx: SaveContext
+): Promise<SaveResult & { archivedBytes: number; unchanged: boolean }> => {
+  const apiResultEither = await getElocalCalls(apiKey, ctx.campaignUuid)(chunk)();
+
+  if (apiResultEither._tag === 'Left') {
+    throw apiResultEither.left;
+  }
+
+  const apiData = apiResultEither.right;
+  const useWatermarks = ctx.useWatermarks === true && !ctx.dryRun;
+  const watermark = {
+    source: 'elocal' as const,
+    scopeKey: ctx.campaignUuid,
+    day: formatDateForURL(chunk.startDate),
+    contentHash: hashResultSet(apiData.calls),
+    recordCount: apiData.calls.length,
+  };
+
+  if (useWatermarks) {
+    let previousHash: string | undefined;
+    try {
+      previousHash = (await db.getSyncWatermarks('elocal', ctx.campaignUuid, [watermark.day])).get(watermark.day);
+    } catch (error) {
+      console.warn('[WARN] Failed to load sync watermark, writing chunk:', (error as Error).message);
+    }
+
+    if (previousHash === watermark.contentHash) {
+      console.log(`[INFO] ${apiData.calls.length} records unchanged since last fetch; skipping DB writes`);
+      try {
+        await db.saveSyncWatermark(watermark);
+      } catch (error) {
+        console.warn('[WARN] Failed to update sync watermark:', (error as Error).message);
+      }
+      // Still processed so the run summary counts these calls; invalid records were quarantined last time
+      const { calls } = partitionRawApiCalls(apiData.calls, ctx.category);
+      return {
+        processedCalls: processCampaignCalls(calls),
+        callsInserted: 0,
+        callsUpdated: 0,
+        adjustmentsInserted: 0,
+        quarantined: 0,
+        diff: [],
+        partialFailures: [],
+        archivedBytes: 0,
+        unchanged: true,
+      };
+    }
+  }
+
+  let archivedBytes = 0;
+  if (!ctx.dryRun) {
+    try {
+      const archived = await db.archiveRawResponse({
+        sessionId: ctx.sessionId,
+        campaignUuid: ctx.campaignUuid,
+        category: ctx.category,
+        chunkStart: formatDateForURL(chunk.startDate),
+        chunkEnd: formatDateForURL(chunk.endDate),
+        pages: apiData.pages,
+      });
+      archivedBytes = archived.bytes;
+    } catch (error) {
+      console.warn('[WARN] Failed to archive raw eLocal response:', (error as Error).message);
+    }
+  }
+
+  const result = await saveRawCalls(db, apiData.calls, ctx);
+
+  // A chunk with failed writes keeps its old watermark so the next run writes it again
+  if (useWatermarks && result.partialFailures.length > 0) {
+    console.warn(`[WARN] Chunk partly saved (${result.partialFailures.join('; ')}); sync watermark not updated`);
+  } else if (useWatermarks) {
+    try {
+      await db.saveSyncWatermark(watermark);
+    } catch (error) {
+      console.warn('[WARN] Failed to save sync watermark:', (error as Error).message);
+    }
+  }
+
+  return { ...result, archivedBytes, unchanged: false };
+};
+
 /**
  * Base workflow: fetch eLocal calls for a date range (config + dateRange + serviceType + category)
  */
@@ -39,19 +292,23 @@ export const scrapeElocalDataWithDateRange =
 
       const db = createNeonDbOps();
 
-      const campaignUuid =
-        category === 'API' ? '4534924c-f52b-4124-981b-9d2670b2af3e' : 'dce224a6-f813-4cab-a8c6-972c5a1520ab';
-      const includeAdjustments = category === 'STATIC';
+      const campaign = getCampaign(category);
+      const campaignUuid = campaign.campaignUuid;
+      const includeAdjustments = campaign.includeAdjustments;
+      const dryRun = config.dryRun === true;
+      const useWatermarks = watermarksEnabled(config.useWatermarks);
 
       try {
-        console.log(`[INFO] Starting scraping session: ${session.sessionId}`);
+        console.log(`[INFO] Starting scraping session: ${session.sessionId}${dryRun ? ' (dry run)' : ''}`);
         console.log(`[INFO] Category: ${category}, Campaign UUID: ${campaignUuid}`);
         console.log(`[INFO] Date range: ${getDateRangeDescription(dateRange)}`);
 
-        try {
-          await db.createSession(session);
-        } catch (error) {
-          console.warn('[WARN] Failed to create session in database:', (error as Error).message);
+        if (!dryRun) {
+          try {
+            await db.createSession(session);
+          } catch (error) {
+            console.warn('[WARN] Failed to create session in database:', (error as Error).message);
+          }
         }
 
         try {
@@ -62,112 +319,137 @@ export const scrapeElocalDataWithDateRange =
             throw new Error('ELOCAL_API_KEY is not configured');
           }
 
-          const apiResultEither = await getElocalCalls(apiKey, campaignUuid)(dateRange)();
-
-          if (apiResultEither._tag === 'Left') {
-            throw apiResultEither.left;
-          }
+          const chunkDays = config.elocalChunkDays ?? (Number(process.env.ELOCAL_CHUNK_DAYS) || 1);
+          const chunks = splitDateRange(dateRange, chunkDays);
+          const rangeStart = formatDateForURL(dateRange.startDate);
+          const rangeEnd = formatDateForURL(dateRange.endDate);
+          // Checkpoints only pay off when there is more than one chunk to resume across
+          const useCheckpoints = chunks.length > 1 && config.resumeFromCheckpoint !== false && !dryRun;
 
-          const apiData = apiResultEither.right;
-          const rawCalls = apiData.calls;
-
-          const mappedCalls: ElocalCall[] = rawCalls.map((call: RawApiCall) => ({
-            callerId: call.caller_phone || call.callerPhoneNumber || call.callerId || call.phone || '',
-            dateOfCall: call.call_date || call.callStartTime || call.date || '',
-            elocalPayout: call.final_payout !== undefined ? call.final_payout : call.payout ?? 0,
-            ringbaOriginalPayout: call.original_payout !== undefined && call.original_payout !== null ? call.original_payout : null,
-            ringbaOriginalRevenue: call.original_revenue !== undefined && call.original_revenue !== null ? call.original_revenue : null,
-            category: category,
-            cityState: call.cityState || null,
-            zipCode: call.zip_code || call.zipCode || null,
-            totalDuration: call.call_duration ?? call.duration ?? call.callDuration ?? null,
-            adjustmentTime: call.adjustment_date ?? undefined,
-            adjustmentAmount: call.adjustment_amount !== undefined && call.adjustment_amount !== null ? call.adjustment_amount : undefined,
-          }));
-
-          const rawAdjustments: any[] = [];
-
-          console.log(`[INFO] Fetched ${mappedCalls.length} calls from API`);
-
-          const processedAdjustments = includeAdjustments ? processAdjustmentDetails(rawAdjustments) : [];
-          const processedCalls = processCampaignCalls(mappedCalls);
-
-          processedCalls.forEach((call) => {
-            if (!call.category) {
-              call.category = category;
-            }
-          });
-
-          console.log(`[INFO] Processed ${processedCalls.length} campaign calls (category: ${category})`);
-          if (processedCalls.length > 0) {
-            console.log(`[INFO] Sample call category: ${processedCalls[0].category}`);
-          }
-          if (includeAdjustments) {
-            console.log(`[INFO] Parsed ${processedAdjustments.length} adjustment rows`);
-          }
-
-          console.log('[INFO] Saving data to database...');
-          console.log(`[INFO] ${category} category: Using eLocal data only (no Ringba lookups)`);
-          console.log(`[INFO] Note: eLocal timestamps (EST) are converted to UTC before saving`);
-
-          if (includeAdjustments && processedAdjustments.length > 0) {
+          let completedChunks = new Set<string>();
+          if (useCheckpoints) {
             try {
-              const adjustmentsResult = await db.insertAdjustmentsBatch(processedAdjustments);
-              console.log(
-                `[SUCCESS] Saved ${adjustmentsResult.inserted || 0} adjustment details to adjustment_details table (${adjustmentsResult.skipped || 0} skipped as duplicates)`
-              );
+              completedChunks = new Set(await db.getCompletedFetchChunks(campaignUuid, rangeStart, rangeEnd));
             } catch (error) {
-              console.warn(
-                '[WARN] Failed to save adjustment details to adjustment_details table:',
-                (error as Error).message
-              );
+              console.warn('[WARN] Failed to load fetch checkpoints, fetching all chunks:', (error as Error).message);
             }
           }
 
+          console.log(
+            `[INFO] Fetching ${chunks.length} chunk(s) of ${chunkDays} day(s)` +
+              (completedChunks.size > 0 ? `, resuming after ${completedChunks.size} completed chunk(s)` : '')
+          );
+
+          const processedCalls: ElocalCall[] = [];
           let callsInserted = 0;
           let callsUpdated = 0;
+          let adjustmentsInserted = 0;
+          let chunksFetched = 0;
+          let chunksResumed = 0;
+          let quarantined = 0;
+          let archivedBytes = 0;
+          let unchangedDays = 0;
+          const diff: ElocalCallDiff[] = [];
+
+          for (let i = 0; i < chunks.length; i++) {
+            const chunk = chunks[i];
+            const chunkStart = formatDateForURL(chunk.startDate);
+            const chunkEnd = formatDateForURL(chunk.endDate);
+            const chunkLabel = `[Chunk ${i + 1}/${chunks.length}] ${getDateRangeDescription(chunk)}`;
+
+            if (completedChunks.has(chunkStart)) {
+              console.log(`[INFO] ${chunkLabel}: already completed in a previous run, skipping`);
+              chunksResumed++;
+              continue;
+            }
 
-          let callsMerged = processedCalls;
+            const chunkResult = await fetchAndSaveChunk(db, apiKey, chunk, {
+              sessionId: session.sessionId,
+              campaignUuid,
+              category,
+              includeAdjustments,
+              dryRun,
+              useWatermarks,
+            });
+            processedCalls.push(...chunkResult.processedCalls);
+            callsInserted += chunkResult.callsInserted;
+            callsUpdated += chunkResult.callsUpdated;
+            adjustmentsInserted += chunkResult.adjustmentsInserted;
+            quarantined += chunkResult.quarantined;
+            archivedBytes += chunkResult.archivedBytes;
+            diff.push(...chunkResult.diff);
+            if (chunkResult.unchanged) unchangedDays++;
+            chunksFetched++;
+
+            console.log(
+              `[INFO] ${chunkLabel}: ${chunkResult.processedCalls.length} calls ${chunkResult.unchanged ? 'unchanged, not rewritten' : 'saved'}`
+            );
 
-          if (!includeAdjustments) {
-            callsMerged = processedCalls.map((c) => ({
-              ...c,
-              category: c.category || category,
-            }));
-            console.log(`[INFO] API category: Prepared ${callsMerged.length} calls for database (category: ${category})`);
+            if (useCheckpoints) {
+              try {
+                await db.markFetchChunkComplete({
+                  campaignUuid,
+                  rangeStart,
+                  rangeEnd,
+                  chunkStart,
+                  chunkEnd,
+                  callsFetched: chunkResult.processedCalls.length,
+                  sessionId: session.sessionId,
+                });
+              } catch (error) {
+                console.warn(`[WARN] ${chunkLabel}: failed to save checkpoint:`, (error as Error).message);
+              }
+            }
           }
 
-          if (callsMerged.length > 0) {
-            const categoryCounts = callsMerged.reduce(
-              (acc, c) => {
-                acc[c.category || 'null'] = (acc[c.category || 'null'] || 0) + 1;
-                return acc;
-              },
-              {} as Record<string, number>
-            );
-            console.log(`[INFO] About to save ${callsMerged.length} calls with categories:`, categoryCounts);
+          if (useCheckpoints) {
+            try {
+              await db.clearFetchCheckpoints(campaignUuid, rangeStart, rangeEnd);
+            } catch (error) {
+              console.warn('[WARN] Failed to clear fetch checkpoints:', (error as Error).message);
+            }
+          }
 
-            const callsResult = await db.insertCallsBatch(callsMerged);
-            callsInserted = callsResult.inserted || 0;
-            callsUpdated = callsResult.updated || 0;
+          let dryRunSummary: ScrapingResult['dryRun'];
+          if (dryRun) {
+            dryRunSummary = summarizeFetchDiff(diff);
+            printFetchDiffSummary(dryRunSummary);
+            if (config.diffOutputFile) {
+              try {
+                writeFetchDiffFile(config.diffOutputFile, diff);
+                dryRunSummary.file = config.diffOutputFile;
+                console.log(`[DRY RUN] Diff written to ${config.diffOutputFile}`);
+              } catch (error) {
+                console.warn('[WARN] Failed to write diff file:', (error as Error).message);
+              }
+            }
+          } else {
             console.log(
               `[SUCCESS] Saved ${callsInserted} new campaign calls (category: ${category}), updated ${callsUpdated} existing`
             );
-          } else {
-            console.log(`[WARN] No calls to save for category: ${category}`);
+            if (unchangedDays > 0) {
+              console.log(`[INFO] ${unchangedDays} of ${chunks.length} chunk(s) unchanged since the last fetch; writes skipped`);
+            }
+          }
+          if (quarantined > 0 && !dryRun) {
+            console.warn(
+              `[WARN] ${quarantined} records quarantined for session ${session.sessionId} — run \`npm run reprocess:quarantine\` after fixing the mapping`
+            );
           }
 
-          const adjustmentsApplied = callsMerged.filter((c) => c.adjustmentAmount != null && c.adjustmentAmount !== 0).length;
+          const adjustmentsApplied = processedCalls.filter((c) => c.adjustmentAmount != null && c.adjustmentAmount !== 0).length;
 
-          try {
-            await db.updateSession(session.sessionId)({
-              completed_at: new Date().toISOString(),
-              status: 'completed',
-              calls_scraped: processedCalls.length,
-              adjustments_scraped: adjustmentsApplied,
-            });
-          } catch (error) {
-            console.warn('[WARN] Failed to update session:', (error as Error).message);
+          if (!dryRun) {
+            try {
+              await db.updateSession(session.sessionId)({
+                completed_at: new Date().toISOString(),
+                status: 'completed',
+                calls_scraped: processedCalls.length,
+                adjustments_scraped: adjustmentsApplied,
+              });
+            } catch (error) {
+              console.warn('[WARN] Failed to update session:', (error as Error).message);
+            }
           }
 
           const summary = {
@@ -175,6 +457,8 @@ export const scrapeElocalDataWithDateRange =
             totalPayout: processedCalls.reduce((sum, call) => sum + (call.elocalPayout || 0), 0),
             uniqueCallers: new Set(processedCalls.map((call) => call.callerId)).size,
             adjustmentsApplied,
+            quarantined,
+            unchangedDays,
           };
 
           return {
@@ -182,8 +466,12 @@ export const scrapeElocalDataWithDateRange =
             dateRange: getDateRangeDescription(dateRange),
             summary,
             calls: processedCalls,
-            downloadedFile: { file: 'skipped', size: 0 },
-            databaseResults: { callsInserted, callsUpdated },
+            downloadedFile: archivedBytes > 0
+              ? { file: `elocal_raw_responses/${session.sessionId}`, size: archivedBytes }
+              : { file: 'skipped', size: 0 },
+            databaseResults: { callsInserted, callsUpdated, adjustmentsInserted },
+            chunks: { total: chunks.length, fetched: chunksFetched, resumed: chunksResumed },
+            dryRun: dryRunSummary,
           };
         } catch (apiError) {
           throw new Error(`eLocal API flow failed: ${(apiError as Error).message}`);
@@ -191,14 +479,16 @@ export const scrapeElocalDataWithDateRange =
       } catch (error) {
         console.error('[ERROR] Scraping failed:', (error as Error).message);
 
-        try {
-          await db.updateSession(session.sessionId)({
-            completed_at: new Date().toISOString(),
-            status: 'failed',
-            error_message: (error as Error).message,
-          });
-        } catch (updateError) {
-          console.warn('[WARN] Failed to update session with error:', (updateError as Error).message);
+        if (!dryRun) {
+          try {
+            await db.updateSession(session.sessionId)({
+              completed_at: new Date().toISOString(),
+              status: 'failed',
+              error_message: (error as Error).message,
+            });
+          } catch (updateError) {
+            console.warn('[WARN] Failed to update session with error:', (updateError as Error).message);
+          }
         }
 
         throw error;
@@ -1,202 +1,80 @@
 // Service to sync cost changes from eLocal to Ringba dashboard
 // Detects changes in elocal_call_data compared to ringba_original_sync
-// Matches by: 1) Category (from target ID), 2) caller ID (E.164), 3) time window (±30 minutes), 4) call duration (±30 seconds)
-// Note: Payout is NOT used for matching - only for updating after match is found
+// Matches with the shared profile of src/utils/call-matching.ts: 1) Category (from target ID), 2) caller ID (E.164), 3) time window, 4) call duration
+// Note: Payout never rejects a match - it only ranks candidates; the payouts are what gets updated
 // Updates Ringba payout and revenue in bulk
 
-import { createNeonDbOps } from '../database/neon-operations.js';
-import { updateCallPayment, getCategoryFromTargetId } from '../http/ringba-client.js';
-import { parseDateAsEastern } from '../utils/date-normalizer.js';
+import { createNeonDbOps, type NeonDbOps } from '../database/neon-operations.js';
+import { updateCallPayment, buildPaymentOverrideBody, RINGBA_OVERRIDE_RETRY_POLICY } from '../http/ringba-client.js';
+import { runAdaptive } from '../http/adaptive-executor.js';
+import type { RetryPolicy } from '../http/http-client.js';
+import { getCallAmounts } from '../http/ringba-call-amounts.js';
+import { getCategoryForTarget } from '../config/campaign-registry.js';
+import { resolvePayoutRule, applyPayoutRule } from '../config/payout-policy.js';
+import { checkGuardrails } from '../config/cost-sync-guardrails.js';
+import {
+  toE164,
+  decideMatch,
+  getMatchProfile,
+  candidateFromCostSyncElocal,
+  candidateFromCostSyncRingba,
+  toMatchLinkInfo,
+} from '../utils/call-matching.js';
+import {
+  ASSIGNMENT_COSTS,
+  assignOptimal,
+  diffAssignments,
+  getAssignmentSettings,
+  printAssignmentReport,
+  type AssignedPair,
+  type AssignmentGroup,
+} from '../utils/call-assignment.js';
+import { createSession } from '../utils/helpers.js';
+import { loadTargetMappings } from './ringba-target-discovery.service.js';
 import type {
   RingbaCostSyncConfig,
   ElocalCallForCostSync,
   RingbaCallForCostSync,
-  CallMatch,
   RingbaPaymentUpdate,
   UnmatchedCall,
   MatchedCallForIdUpdate,
   RingbaUpdateResult,
   RingbaCostSyncSummary,
+  PendingOverrideFilter,
+  PendingOverridePushSummary,
+  OverrideLedgerEntry,
+  RingbaRollbackRequest,
+  RingbaRollbackSummary,
+  OverrideVerificationSummary,
 } from '../types/ringba-cost-sync.js';
-import type { DateRange, Category } from '../types/index.js';
-
-// Convert phone number to E.164 format
-const toE164 = (raw: string | null | undefined): string | null => {
-  if (!raw) return null;
-  const digits = (raw || '').replace(/\D/g, '');
-  if (!digits) return null;
-  // If already in E.164 format (starts with +), return as-is
-  if (raw.startsWith('+')) return raw;
-  // 11 digits starting with 1 (US with country code)
-  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
-  // 10 digits (US without country code)
-  if (digits.length === 10) return `+1${digits}`;
-  // Last resort: try to format as E.164
-  return digits.length > 0 ? `+${digits}` : null;
-};
-
-// Parse date from various formats to Date object
-// Handles: ISO format, MM/DD/YYYY HH:MM:SS AM/PM (Ringba format), YYYY-MM-DD, etc.
-// IMPORTANT: eLocal dates are in EST (Eastern Standard Time) USA/Canada timezone
-const parseDate = (dateStr: string | Date | null | undefined, isElocalDate = false): Date | null => {
-  if (!dateStr) return null;
-
-  try {
-    if (dateStr instanceof Date) return dateStr;
-
-    // eLocal calls are already correctly saved in UTC and have proper ISO format
-    if (isElocalDate) {
-      const d = new Date(dateStr);
-      return isNaN(d.getTime()) ? null : d;
-    }
-
-    // User note: "convert to UTC before comparing, since in ringba, calls are being saved in est while we are saving in UTC."
-    // Treat the Ringba date as EST/EDT explicitly and convert it into a true UTC Date object using the existing util.
-    return parseDateAsEastern(dateStr);
-
-  } catch (error) {
-    return null;
-  }
-};
-
-// Calculate time difference in minutes
-const timeDiffMinutes = (date1: Date | null, date2: Date | null): number => {
-  if (!date1 || !date2) return Infinity;
-  return Math.abs(date1.getTime() - date2.getTime()) / (1000 * 60);
-};
-
-// Match eLocal call with Ringba call
-// Uses: 1) Category (from target ID), 2) caller ID (E.164), 3) time range (±30 minutes), 4) call duration (±30 seconds)
-// Note: Payout is NOT used for matching - only for updating after match is found
-const matchCall = (
-  elocalCall: ElocalCallForCostSync,
-  ringbaCall: RingbaCallForCostSync,
-  windowMinutes = 400, // Very loose window to account for the mathematical timezone artifacts between EST and UTC across IST node instances
-  durationTolerance = 30
-): CallMatch | null => {
-  // 0. Match category first (from Ringba target ID)
-  const ringbaCategory = getCategoryFromTargetId(ringbaCall.target_id);
-  const elocalCategory = (elocalCall.category || 'STATIC') as Category;
-
-  // Categories must match
-  if (ringbaCategory !== elocalCategory) {
-    return null;
-  }
-
-  // 1. Match caller ID (convert both to E.164)
-  const elocalCallerE164 = toE164(elocalCall.caller_id);
-  const ringbaCallerE164 = ringbaCall.caller_id_e164 || toE164(ringbaCall.caller_id);
-
-  // Skip anonymous or invalid caller IDs
-  const elocalCallerLower = (elocalCall.caller_id || '').toLowerCase();
-  if (elocalCallerLower.includes('anonymous') || elocalCallerLower === '' || !elocalCall.caller_id) {
-    return null;
-  }
-
-  if (!elocalCallerE164 || !ringbaCallerE164) {
-    return null;
-  }
-
-  // Compare normalized E.164 formats
-  if (elocalCallerE164 !== ringbaCallerE164) {
-    return null;
-  }
-
-  // DEBUGGING: Intercept known problem callers on March 12
-  const problemCallers = [
-    '+14072565548', '+12815300669', '+18136018788', '+13123917065', 
-    '+18627661568', '+16786970272', '+18287190311', '+14708716800', 
-    '+18329557609', '+19545593212', '+15037405561', '+17326704488'
-  ];
-  let isProblemCaller = problemCallers.includes(elocalCallerE164);
-
-  // 2. Match date and time
-  const elocalDate = parseDate(elocalCall.date_of_call, true); 
-  const ringbaDate = parseDate(ringbaCall.call_date_time, false);
-
-  if (!elocalDate || !ringbaDate) {
-    return null;
-  }
-
-  // Check if dates are on the same day or adjacent days
-  const elocalDateStr = elocalDate.toISOString().split('T')[0];
-  const ringbaDateStr = ringbaDate.toISOString().split('T')[0];
-  const elocalDateOnly = new Date(elocalDateStr);
-  const ringbaDateOnly = new Date(ringbaDateStr);
-  const daysDiff = Math.abs((elocalDateOnly.getTime() - ringbaDateOnly.getTime()) / (1000 * 60 * 60 * 24));
-
-  if (daysDiff > 1) {
-    if (isProblemCaller) console.log(`[DEBUG REJECT ${elocalCallerE164}] Days difference > 1 (${daysDiff})`);
-    return null; // Dates are more than 1 day apart
-  }
-
-  // Calculate time difference in minutes
-  const timeDiff = timeDiffMinutes(elocalDate, ringbaDate);
-
-  // Both eLocal and Ringba dates are now stored in EST timezone
-  // So we can use the standard 30-minute window for same-day matches
-  // For adjacent days: use 24 hours window
-  const effectiveWindow = daysDiff === 0 ? windowMinutes : (24 * 60);
-
-  if (timeDiff > effectiveWindow) {
-    return null; // Time difference too large
-  }
-
-  // 3. Match call duration (if both have duration data)
-  const elocalDurationRaw = elocalCall.total_duration;
-  const hasElocalDuration = elocalDurationRaw !== null &&
-    elocalDurationRaw !== undefined &&
-    elocalDurationRaw !== 'N/A' &&
-    elocalDurationRaw !== '';
-
-  const ringbaDurationRaw = ringbaCall.call_duration;
-  const hasRingbaDuration = ringbaDurationRaw !== null &&
-    ringbaDurationRaw !== undefined &&
-    ringbaDurationRaw !== 'N/A' &&
-    ringbaDurationRaw !== '';
-
-  const elocalDuration = hasElocalDuration ? Number(elocalDurationRaw) : 0;
-  const ringbaDuration = hasRingbaDuration ? Number(ringbaDurationRaw) : 0;
-  const durationDiff = Math.abs(elocalDuration - ringbaDuration);
-
-  // If both have duration data, check if they match within tolerance
-  let durationMatch = true;
-  if (hasElocalDuration && hasRingbaDuration && elocalDuration > 0 && ringbaDuration > 0) {
-    if (durationDiff > durationTolerance) {
-      if (isProblemCaller) console.log(`[DEBUG REJECT ${elocalCallerE164}] Duration mismatch: eLocal=${elocalDuration}, Ringba=${ringbaDuration}`);
-      return null;
-    }
-    durationMatch = true;
-  }
-  // If either call lacks duration data, skip duration check entirely (allow match)
-
-  // Calculate match score (lower is better)
-  // Prioritize: duration match > time match
-  // Note: Payout is NOT used in matching - only category, caller ID, time, and duration
-  let matchScore = timeDiff;
-
-  // Bonus for duration match
-  if (elocalDuration > 0 && ringbaDuration > 0 && durationDiff <= 10) {
-    matchScore = matchScore * 0.5; // Strong bonus for close duration match
-  }
-
-  if (isProblemCaller) {
-    console.log(`[DEBUG MATCH ${elocalCallerE164}] MATCH SUCCESSFUL! Diff: days=${daysDiff}, min=${timeDiff.toFixed(1)}, dur=${durationDiff}`);
-  }
-
-  return {
-    elocalCall,
-    ringbaCall,
-    matchScore,
-    timeDiff,
-    durationDiff,
-    durationMatch
-  };
+import type { DateRange, Category, MatchRejectReason, AssignmentReport, MatchLinkInfo } from '../types/index.js';
+
+// Previous assignment of a (category, caller) group, kept to report how the optimal one differs:
+// pairs by priority score (payout first, then match score), each call linked once
+const greedyAssignment = (group: AssignmentGroup): AssignedPair[] => {
+  const pairs: AssignedPair[] = [];
+  group.decisions.forEach((row, elocalIndex) => row.forEach((decision, ringbaIndex) => {
+    if (decision.matched) pairs.push({ elocalIndex, ringbaIndex, decision });
+  }));
+  const priorityScore = (pair: AssignedPair): number =>
+    ((group.elocal[pair.elocalIndex].payout ?? 0) * 1000000) + // Payout in millions (e.g., $21 = 21,000,000 priority)
+    (1000 / (pair.decision.score + 1)) +                       // Inverse of time diff (lower time = higher priority)
+    100;                                                        // Duration matched or unknown (mismatches are rejected)
+  pairs.sort((a, b) => priorityScore(b) - priorityScore(a));
+
+  const linkedElocal = new Set<number>();
+  const linkedRingba = new Set<number>();
+  return pairs.filter(pair => {
+    if (linkedElocal.has(pair.elocalIndex) || linkedRingba.has(pair.ringbaIndex)) return false;
+    linkedElocal.add(pair.elocalIndex);
+    linkedRingba.add(pair.ringbaIndex);
+    return true;
+  });
 };
 
 // Detect changes and prepare update list
-// FIX: Use best-score matching instead of first-match-wins
-// Prioritize calls with higher payouts to ensure valuable matches aren't missed
+// Links are assigned per (category, caller) group (src/utils/call-assignment.ts); under the default
+// payout_first cost, calls with higher payouts win conflicts so valuable matches aren't missed
 const detectChanges = (
   elocalCalls: ElocalCallForCostSync[],
   ringbaCalls: RingbaCallForCostSync[]
@@ -204,6 +82,7 @@ const detectChanges = (
   updates: RingbaPaymentUpdate[];
   unmatched: UnmatchedCall[];
   matched: MatchedCallForIdUpdate[];
+  assignment: AssignmentReport;
 } => {
   const updates: RingbaPaymentUpdate[] = [];
   const unmatched: UnmatchedCall[] = [];
@@ -213,7 +92,7 @@ const detectChanges = (
   // Structure: Map<category, Map<callerE164, Array<ringbaCall>>>
   const ringbaCallsByCategoryAndCaller = new Map<string, Map<string, RingbaCallForCostSync[]>>();
   for (const ringbaCall of ringbaCalls) {
-    const category = getCategoryFromTargetId(ringbaCall.target_id);
+    const category = getCategoryForTarget(ringbaCall.target_id);
     if (!category) {
       continue; // Skip calls with invalid target ID
     }
@@ -234,17 +113,13 @@ const detectChanges = (
     callsByCaller.get(callerE164)!.push(ringbaCall);
   }
 
-  // PHASE 1: Collect ALL possible matches for ALL eLocal calls
-  const allPossibleMatches: Array<{
-    elocalCall: ElocalCallForCostSync;
-    ringbaCall: RingbaCallForCostSync;
-    matchScore: number;
-    timeDiff: number;
-    durationDiff: number;
-    durationMatch: boolean;
-    elocalPayout: number;
-    priorityScore: number;
-  }> = [];
+  // PHASE 1: Group eLocal calls with their candidate Ringba calls by (category, caller)
+  const groups = new Map<string, {
+    category: string;
+    caller: string;
+    elocalCalls: ElocalCallForCostSync[];
+    ringbaCalls: RingbaCallForCostSync[];
+  }>();
 
   for (const elocalCall of elocalCalls) {
     const elocalCategory = elocalCall.category || 'STATIC';
@@ -274,60 +149,86 @@ const detectChanges = (
       continue;
     }
 
-    // Find ALL possible matches for this eLocal call
-    for (const ringbaCall of candidateRingbaCalls) {
-      const match = matchCall(elocalCall, ringbaCall);
-      if (match) {
-        const elocalPayout = Number(elocalCall.payout || 0);
-
-        // Calculate priority score (higher is better)
-        // Primary: Payout amount (calls with money are more important)
-        // Secondary: Match score (lower time diff is better, so invert it)
-        // Tertiary: Duration match quality
-        const priorityScore =
-          (elocalPayout * 1000000) +           // Payout in millions (e.g., $21 = 21,000,000 priority)
-          (1000 / (match.matchScore + 1)) +    // Inverse of time diff (lower time = higher priority)
-          (match.durationMatch ? 100 : 0);     // Bonus for duration match
-
-        allPossibleMatches.push({
-          elocalCall,
-          ringbaCall,
-          matchScore: match.matchScore,
-          timeDiff: match.timeDiff,
-          durationDiff: match.durationDiff,
-          durationMatch: match.durationMatch,
-          elocalPayout,
-          priorityScore
-        });
-      }
+    const key = `${elocalCategory}|${callerE164}`;
+    if (!groups.has(key)) {
+      groups.set(key, { category: elocalCategory, caller: callerE164, elocalCalls: [], ringbaCalls: candidateRingbaCalls });
     }
+    groups.get(key)!.elocalCalls.push(elocalCall);
   }
 
-  // PHASE 2: Sort all matches by priority score (highest first)
-  // This ensures calls with higher payouts get matched first
-  allPossibleMatches.sort((a, b) => b.priorityScore - a.priorityScore);
-
-  // PHASE 3: Assign matches in priority order, respecting one-to-one constraint
-  const matchedRingbaIds = new Set<number>();
-  const matchedElocalIds = new Set<number>();
+  // PHASE 2: Decide every pair of a group (shared match profile: category, caller ID, call start within the
+  // category's window, duration within tolerance; payout only ranks candidates), then assign one-to-one: optimal (min-cost) or the previous greedy, and report where they differ
+  const rejections = new Map<number, MatchRejectReason[]>();
+  const { method, cost } = getAssignmentSettings();
+  const assignment: AssignmentReport = {
+    method, cost, groups: 0, differingGroups: 0, linkedGreedy: 0, linkedOptimal: 0, differences: []
+  };
+  const assignedPairs: Array<{
+    elocalCall: ElocalCallForCostSync;
+    ringbaCall: RingbaCallForCostSync;
+    timeDiff: number;
+    elocalPayout: number;
+    link: MatchLinkInfo;
+  }> = [];
 
-  for (const match of allPossibleMatches) {
-    const elocalId = match.elocalCall.id;
-    const ringbaId = match.ringbaCall.id;
+  for (const group of groups.values()) {
+    const profile = getMatchProfile('cost_sync', group.category);
+    const elocal = group.elocalCalls.map(candidateFromCostSyncElocal);
+    const ringba = group.ringbaCalls.map(candidateFromCostSyncRingba);
+    const candidates: AssignmentGroup = {
+      elocal,
+      ringba,
+      decisions: elocal.map(e => ringba.map(r => decideMatch(e, r, profile)))
+    };
 
-    // Skip if either call is already matched
-    if (matchedElocalIds.has(elocalId) || matchedRingbaIds.has(ringbaId)) {
+    // Reason codes of rejected candidates, reported for calls left unmatched
+    candidates.decisions.forEach((row, i) => {
+      const reasons = new Set<MatchRejectReason>();
+      row.forEach(decision => { if (!decision.matched) reasons.add(decision.reason); });
+      if (reasons.size > 0) rejections.set(group.elocalCalls[i].id, [...reasons]);
+    });
+    if (!candidates.decisions.some(row => row.some(decision => decision.matched))) {
       continue;
     }
 
-    // This is the best available match for this pair - assign it
+    const greedy = greedyAssignment(candidates);
+    const optimal = assignOptimal(candidates, ASSIGNMENT_COSTS[cost]);
+    const differences = diffAssignments(
+      candidates, greedy, optimal, group.category, group.caller,
+      j => group.ringbaCalls[j].inbound_call_id
+    );
+    assignment.groups++;
+    assignment.linkedGreedy += greedy.length;
+    assignment.linkedOptimal += optimal.length;
+    if (differences.length > 0) {
+      assignment.differingGroups++;
+      assignment.differences.push(...differences);
+    }
+
+    for (const pair of method === 'optimal' ? optimal : greedy) {
+      const elocalCall = group.elocalCalls[pair.elocalIndex];
+      assignedPairs.push({
+        elocalCall,
+        ringbaCall: group.ringbaCalls[pair.ringbaIndex],
+        timeDiff: pair.decision.timeDiffMinutes,
+        elocalPayout: Number(elocalCall.payout || 0),
+        link: toMatchLinkInfo('cost_sync', pair.decision, method)
+      });
+    }
+  }
+
+  // PHASE 3: Turn assigned pairs into ringba_inbound_call_id links and payout updates
+  const matchedElocalIds = new Set<number>();
+
+  for (const match of assignedPairs) {
+    const elocalId = match.elocalCall.id;
     matchedElocalIds.add(elocalId);
-    matchedRingbaIds.add(ringbaId);
 
     // Track for ringba_inbound_call_id update
     matched.push({
       elocalCallId: elocalId,
-      ringbaInboundCallId: match.ringbaCall.inbound_call_id
+      ringbaInboundCallId: match.ringbaCall.inbound_call_id,
+      match: match.link
     });
 
     // Check if payout/revenue needs updating
@@ -341,9 +242,14 @@ const detectChanges = (
       continue; // No update needed, but ringba_inbound_call_id will still be updated
     }
 
-    // Use eLocal payout for both revenue and payout (same value)
-    const newPayout = elocalPayout;
-    const newRevenue = elocalPayout; // Always same as payout
+    // New amounts come from the payout policy rule for this call's category/target/publisher
+    // (default rule: eLocal payout for both revenue and payout)
+    const rule = resolvePayoutRule({
+      category: match.elocalCall.category || 'STATIC',
+      targetId: match.ringbaCall.target_id || null,
+      publisher: match.ringbaCall.publisher_name || null
+    });
+    const { newPayout, newRevenue } = applyPayoutRule(rule, elocalPayout, { payout: ringbaPayout, revenue: ringbaRevenue });
 
     // Check if update is needed (tolerance: 0.01)
     const payoutDiff = Math.abs(newPayout - ringbaPayout);
@@ -362,8 +268,9 @@ const detectChanges = (
         revenueDiff: revenueDiff,
         matchInfo: {
           timeDiff: match.timeDiff,
-          durationMatch: match.durationMatch
-        }
+          durationMatch: true // duration mismatches are rejected by the matcher
+        },
+        policyRule: rule.id
       });
     }
   }
@@ -373,47 +280,399 @@ const detectChanges = (
   const alreadyUnmatchedIds = new Set(unmatched.map(u => u.elocalCall.id));
   for (const elocalCall of elocalCalls) {
     if (!matchedElocalIds.has(elocalCall.id) && !alreadyUnmatchedIds.has(elocalCall.id)) {
-      unmatched.push({ elocalCall, reason: 'No matching Ringba call found (time/duration mismatch)' });
+      const reasonCodes = rejections.get(elocalCall.id) ?? [];
+      unmatched.push({
+        elocalCall,
+        reason: reasonCodes.length > 0
+          ? `No matching Ringba call found (${reasonCodes.join(', ')})`
+          : 'No matching Ringba call found (candidates matched to other calls)',
+        reasonCodes
+      });
     }
   }
 
-  return { updates, unmatched, matched };
+  return { updates, unmatched, matched, assignment };
 };
 
 // Update a single call in Ringba
+// Each attempt goes through ringba_override_ledger: a 'pending' row before the request, completed
+// with the response after it. Without a ledger row the override is not sent.
 const updateRingbaCall = async (
   accountId: string,
   apiToken: string,
-  update: RingbaPaymentUpdate
+  update: RingbaPaymentUpdate,
+  db: NeonDbOps,
+  runId: string,
+  reason = 'Call payments synced from eLocal database.',
+  retryPolicy: RetryPolicy = RINGBA_OVERRIDE_RETRY_POLICY
 ): Promise<RingbaUpdateResult> => {
-  try {
-    const payload = {
-      newConversionAmount: Number(update.newRevenue),
-      newPayoutAmount: Number(update.newPayout),
-      reason: 'Call payments synced from eLocal database.',
-      targetId: update.targetId || null // Include target ID if available
-    };
-
-    const result = await updateCallPayment(accountId, apiToken, update.ringbaInboundCallId, payload);
-
-    if (!result.success) {
-      throw new Error(result.error || 'Unknown error');
-    }
+  const payload = {
+    newConversionAmount: Number(update.newRevenue),
+    newPayoutAmount: Number(update.newPayout),
+    reason,
+    targetId: update.targetId || null // Include target ID if available
+  };
 
+  let ledgerId: number;
+  try {
+    ledgerId = await db.startOverrideLedgerEntry({
+      runId,
+      update,
+      requestBody: buildPaymentOverrideBody(update.ringbaInboundCallId, payload)
+    });
+  } catch (error) {
     return {
-      success: true,
+      success: false,
       elocalCallId: update.elocalCallId,
       ringbaInboundCallId: update.ringbaInboundCallId,
-      result: result.data
+      error: `Override ledger unavailable, not sent: ${(error as Error).message}`
     };
+  }
+
+  const result = await updateCallPayment(accountId, apiToken, update.ringbaInboundCallId, payload, retryPolicy);
+
+  try {
+    await db.completeOverrideLedgerEntry(ledgerId, {
+      success: result.success,
+      responseBody: result.success ? result.data : result.errorBody ?? null,
+      httpStatus: result.status ?? null,
+      error: result.success ? null : result.error || 'Unknown error'
+    });
   } catch (error) {
+    console.warn(`[WARN] Override ledger entry ${ledgerId} left pending:`, (error as Error).message);
+  }
+
+  if (!result.success) {
     return {
       success: false,
       elocalCallId: update.elocalCallId,
       ringbaInboundCallId: update.ringbaInboundCallId,
-      error: error instanceof Error ? error.message : String(error)
+      error: result.error || 'Unknown error',
+      ledgerId,
+      httpStatus: result.status ?? null
     };
   }
+
+  return {
+    success: true,
+    elocalCallId: update.elocalCallId,
+    ringbaInboundCallId: update.ringbaInboundCallId,
+    result: result.data,
+    ledgerId,
+    httpStatus: result.status ?? null
+  };
+};
+
+const DEFAULT_PUSH_CONCURRENCY = 4;
+
+// Step 4 worker pool size: config, else RINGBA_PUSH_CONCURRENCY, else 4
+const pushConcurrency = (configured: number | undefined): number => {
+  const n = Math.floor(Number(configured ?? process.env.RINGBA_PUSH_CONCURRENCY));
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_PUSH_CONCURRENCY;
+};
+
+// Verify-after-write is on unless disabled; Ringba can accept an override (2xx) without applying it,
+// e.g. when the targetId does not match the call
+export const verificationEnabled = (configured: boolean | undefined): boolean =>
+  configured ?? process.env.RINGBA_VERIFY_OVERRIDES !== 'false';
+
+const VERIFY_BATCH_SIZE = 100;
+
+// Re-read pushed calls from the Ringba call log and compare conversionAmount/payoutAmount with what
+// was sent, recording verified/mismatched on each ledger row. Mismatches are re-sent once and checked
+// again; those still off are returned in the summary. Calls missing from the call log are unchecked.
+const verifyPushedOverrides = async (
+  accountId: string,
+  apiToken: string,
+  db: NeonDbOps,
+  runId: string,
+  pushed: Array<{ update: RingbaPaymentUpdate; ledgerId?: number }>,
+  window: { startDate: Date; endDate: Date }
+): Promise<OverrideVerificationSummary> => {
+  const summary: OverrideVerificationSummary = { checked: 0, verified: 0, retried: 0, mismatched: 0, unchecked: 0, mismatches: [] };
+  const fetchAmounts = getCallAmounts(accountId, apiToken);
+  // Ringba applies overrides asynchronously; give the call log a moment before reading it back
+  const settleMs = Number(process.env.RINGBA_VERIFY_DELAY_MS || 5000);
+  const same = (actual: number | null, expected: number) => actual !== null && Math.abs(actual - expected) < 0.01;
+
+  const check = async (batch: typeof pushed) => {
+    const mismatched: Array<{ update: RingbaPaymentUpdate; actualPayout: number | null; actualRevenue: number | null }> = [];
+    await new Promise(resolve => setTimeout(resolve, settleMs));
+    for (let i = 0; i < batch.length; i += VERIFY_BATCH_SIZE) {
+      const chunk = batch.slice(i, i + VERIFY_BATCH_SIZE);
+      const amountsEither = await fetchAmounts(chunk.map(p => p.update.ringbaInboundCallId), window)();
+      if (amountsEither._tag === 'Left') {
+        console.error(`[Verify] ❌ ${amountsEither.left.message}; ${chunk.length} call(s) left unchecked`);
+        summary.unchecked += chunk.length;
+        continue;
+      }
+      for (const { update, ledgerId } of chunk) {
+        const amounts = amountsEither.right.get(update.ringbaInboundCallId);
+        // A call the call-log query did not return says nothing about the override; leave it unchecked
+        if (!amounts) {
+          summary.unchecked++;
+          continue;
+        }
+        const actualPayout = amounts.payoutAmount;
+        const actualRevenue = amounts.conversionAmount;
+        const ok = same(actualPayout, update.newPayout) && same(actualRevenue, update.newRevenue);
+        if (ledgerId !== undefined) {
+          try {
+            await db.recordOverrideVerification(ledgerId, {
+              status: ok ? 'verified' : 'mismatched',
+              payout: actualPayout,
+              revenue: actualRevenue
+            });
+          } catch (error) {
+            console.warn(`[WARN] Verification of ledger entry ${ledgerId} not recorded:`, (error as Error).message);
+          }
+        }
+        if (!ok) mismatched.push({ update, actualPayout, actualRevenue });
+      }
+    }
+    return mismatched;
+  };
+
+  const firstMismatches = await check(pushed);
+  summary.checked = pushed.length - summary.unchecked;
+  summary.verified = summary.checked - firstMismatches.length;
+  if (firstMismatches.length === 0) return summary;
+
+  // Retry each mismatch once, then check again
+  console.log(`[Verify] ${firstMismatches.length} override(s) not reflected in the call log; re-sending once...`);
+  const resent: typeof pushed = [];
+  for (const { update, actualPayout, actualRevenue } of firstMismatches) {
+    console.log(`[Verify] ${update.ringbaInboundCallId}: expected payout $${update.newPayout.toFixed(2)}/revenue $${update.newRevenue.toFixed(2)}, call log shows ${actualPayout === null ? 'nothing' : `$${actualPayout.toFixed(2)}/$${(actualRevenue ?? 0).toFixed(2)}`}`);
+    const result = await updateRingbaCall(accountId, apiToken, update, db, runId);
+    summary.retried++;
+    if (result.success) {
+      resent.push({ update, ledgerId: result.ledgerId });
+    } else {
+      summary.mismatched++;
+      summary.mismatches.push({
+        ringbaInboundCallId: update.ringbaInboundCallId,
+        elocalCallId: update.elocalCallId,
+        expectedPayout: update.newPayout,
+        expectedRevenue: update.newRevenue,
+        actualPayout,
+        actualRevenue
+      });
+    }
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+
+  const uncheckedBefore = summary.unchecked;
+  const stillMismatched = resent.length > 0 ? await check(resent) : [];
+  summary.verified += resent.length - (summary.unchecked - uncheckedBefore) - stillMismatched.length;
+  for (const { update, actualPayout, actualRevenue } of stillMismatched) {
+    summary.mismatched++;
+    summary.mismatches.push({
+      ringbaInboundCallId: update.ringbaInboundCallId,
+      elocalCallId: update.elocalCallId,
+      expectedPayout: update.newPayout,
+      expectedRevenue: update.newRevenue,
+      actualPayout,
+      actualRevenue
+    });
+  }
+  return summary;
+};
+
+// True when the call's last successful override set the same amounts and the Ringba snapshot we
+// compared against (ringba_original_sync) still shows what Ringba had before that override, i.e.
+// the override was applied and the snapshot has not been refreshed since. If Ringba has changed
+// the amounts again after our override, the snapshot differs and the override is sent again.
+const alreadyApplied = (update: RingbaPaymentUpdate, last: OverrideLedgerEntry | undefined): boolean => {
+  if (!last) return false;
+  const same = (a: unknown, b: number) => Math.abs(Number(a) - b) < 0.005;
+  return (
+    same(last.new_payout, update.newPayout) &&
+    same(last.new_revenue, update.newRevenue) &&
+    same(last.old_payout, update.currentPayout) &&
+    same(last.old_revenue, update.currentRevenue)
+  );
+};
+
+// Record the payout/revenue an override changed in call_payout_history (table 'ringba')
+const recordPushedChange = async (db: NeonDbOps, update: RingbaPaymentUpdate, runId: string): Promise<void> => {
+  const pushed: Array<[string, number, number]> = [
+    ['payout', update.currentPayout, update.newPayout],
+    ['revenue', update.currentRevenue, update.newRevenue],
+  ];
+  await db.recordPayoutChanges(
+    pushed
+      .filter(([, oldValue, newValue]) => oldValue !== newValue)
+      .map(([columnName, oldValue, newValue]) => ({
+        callId: update.elocalCallId,
+        ringbaId: update.ringbaInboundCallId,
+        tableName: 'ringba',
+        columnName,
+        oldValue,
+        newValue,
+        source: 'cost_sync' as const,
+        sessionId: runId,
+      }))
+  );
+};
+
+// Approval mode: Step 4 queues overrides in pending_payment_overrides instead of pushing them
+export const approvalRequired = (configured: boolean | undefined): boolean =>
+  configured ?? process.env.RINGBA_OVERRIDE_APPROVAL === 'true';
+
+// Push approved overrides from pending_payment_overrides to Ringba
+// Overrides whose eLocal payout changed after queueing are marked stale first and never pushed
+export const pushApprovedPaymentOverrides = async (
+  config: RingbaCostSyncConfig,
+  filter: PendingOverrideFilter = {}
+): Promise<PendingOverridePushSummary> => {
+  const accountId = config.ringbaAccountId;
+  const apiToken = config.ringbaApiToken;
+
+  if (!accountId || !apiToken) {
+    throw new Error('Ringba account ID and API token are required');
+  }
+
+  const db = createNeonDbOps();
+  const runId = `override_push_${createSession().sessionId}`;
+
+  const stale = await db.markStalePaymentOverrides(filter);
+  if (stale.length > 0) {
+    console.log(`[Push] ${stale.length} override(s) marked stale (eLocal payout changed): ${stale.join(', ')}`);
+  }
+
+  const approved = await db.getPaymentOverrides({ ...filter, status: 'approved' });
+  console.log(`[Push] ${approved.length} approved override(s) to push`);
+  const lastApplied = await db.getLastSuccessfulOverrides(approved.map(row => row.ringba_inbound_call_id));
+
+  let pushed = 0;
+  let failed = 0;
+  let skipped = 0;
+  for (let i = 0; i < approved.length; i++) {
+    const row = approved[i];
+    const update: RingbaPaymentUpdate = {
+      elocalCallId: row.elocal_call_id,
+      ringbaInboundCallId: row.ringba_inbound_call_id,
+      targetId: row.target_id,
+      currentPayout: Number(row.current_payout),
+      currentRevenue: Number(row.current_revenue),
+      newPayout: Number(row.new_payout),
+      newRevenue: Number(row.new_revenue),
+      payoutDiff: Math.abs(Number(row.new_payout) - Number(row.current_payout)),
+      revenueDiff: Math.abs(Number(row.new_revenue) - Number(row.current_revenue)),
+      matchInfo: {
+        timeDiff: Number(row.match_time_diff ?? 0),
+        durationMatch: row.match_duration ?? true
+      },
+      policyRule: row.policy_rule ?? undefined
+    };
+
+    console.log(`[Push] [${i + 1}/${approved.length}] #${row.id} ${update.ringbaInboundCallId}: payout $${update.currentPayout.toFixed(2)} → $${update.newPayout.toFixed(2)}, revenue $${update.currentRevenue.toFixed(2)} → $${update.newRevenue.toFixed(2)}`);
+    if (alreadyApplied(update, lastApplied.get(update.ringbaInboundCallId))) {
+      skipped++;
+      await db.markPaymentOverridePushed(row.id, true, null);
+      console.log(`         ⏭️  Already applied (ringba_override_ledger)`);
+      continue;
+    }
+    const result = await updateRingbaCall(accountId, apiToken, update, db, runId);
+    await db.markPaymentOverridePushed(row.id, result.success, result.error ?? null);
+
+    if (result.success) {
+      pushed++;
+      await recordPushedChange(db, update, runId);
+      console.log(`         ✅ Pushed`);
+    } else {
+      failed++;
+      console.error(`         ❌ Failed: ${result.error}`);
+    }
+
+    if (i < approved.length - 1) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+
+  return { approved: approved.length, stale: stale.length, pushed, failed, alreadyApplied: skipped, runId };
+};
+
+// Restore overridden calls to their pre-override payout/revenue (see getRollbackCandidates for
+// where those amounts come from). Rollbacks go through updateRingbaCall like any other override,
+// so they land in ringba_override_ledger under a rollback_ run id and can themselves be rolled back.
+export const rollbackRingbaPayments = async (
+  config: RingbaCostSyncConfig,
+  request: RingbaRollbackRequest
+): Promise<RingbaRollbackSummary> => {
+  const accountId = config.ringbaAccountId;
+  const apiToken = config.ringbaApiToken;
+  const dryRun = request.dryRun ?? false;
+
+  if (!dryRun && (!accountId || !apiToken)) {
+    throw new Error('Ringba account ID and API token are required');
+  }
+
+  const db = createNeonDbOps();
+  const runId = `rollback_${createSession().sessionId}`;
+  const candidates = await db.getRollbackCandidates(request);
+  console.log(`[Rollback] ${candidates.length} overridden call(s) found${request.runId ? ` for run ${request.runId}` : ''}`);
+
+  const same = (a: number, b: number) => Math.abs(a - b) < 0.005;
+  const skipped = candidates.filter(c => c.restorePayout === null || c.restoreRevenue === null);
+  const rollbacks = candidates.filter(c =>
+    c.restorePayout !== null && c.restoreRevenue !== null &&
+    !(same(c.currentPayout, c.restorePayout) && same(c.currentRevenue, c.restoreRevenue))
+  );
+  const unchanged = candidates.length - skipped.length - rollbacks.length;
+  skipped.forEach(c => {
+    const missing = c.restorePayout === null && c.restoreRevenue === null
+      ? 'payout and revenue'
+      : c.restorePayout === null ? 'payout' : 'revenue';
+    console.warn(`[Rollback] ${c.ringbaInboundCallId}: pre-override ${missing} unknown, skipping (not restored)`);
+  });
+
+  let restored = 0;
+  let failed = 0;
+  for (let i = 0; i < rollbacks.length; i++) {
+    const c = rollbacks[i];
+    const newPayout = c.restorePayout as number;
+    const newRevenue = c.restoreRevenue as number;
+    const prefix = dryRun ? '[DRY RUN] Would restore' : `[Rollback] [${i + 1}/${rollbacks.length}]`;
+    console.log(`${prefix} ${c.ringbaInboundCallId} (${c.category ?? '?'} @ ${c.callTimestamp ?? '?'}, ${c.restoreSource}): payout $${c.currentPayout.toFixed(2)} → $${newPayout.toFixed(2)}, revenue $${c.currentRevenue.toFixed(2)} → $${newRevenue.toFixed(2)}`);
+    if (dryRun) continue;
+
+    const update: RingbaPaymentUpdate = {
+      elocalCallId: c.elocalCallId,
+      ringbaInboundCallId: c.ringbaInboundCallId,
+      targetId: c.targetId,
+      currentPayout: c.currentPayout,
+      currentRevenue: c.currentRevenue,
+      newPayout,
+      newRevenue,
+      payoutDiff: newPayout - c.currentPayout,
+      revenueDiff: newRevenue - c.currentRevenue,
+      matchInfo: { timeDiff: 0, durationMatch: true },
+      policyRule: 'rollback',
+    };
+    const result = await updateRingbaCall(
+      accountId as string,
+      apiToken as string,
+      update,
+      db,
+      runId,
+      `Rollback of payment override${request.runId ? ` from run ${request.runId}` : ''}.`
+    );
+    if (result.success) {
+      restored++;
+      await recordPushedChange(db, update, runId);
+      console.log(`         ✅ Restored`);
+    } else {
+      failed++;
+      console.error(`         ❌ Failed: ${result.error}`);
+    }
+
+    if (i < rollbacks.length - 1) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+
+  return { runId, dryRun, candidates: candidates.length, unchanged, skipped: skipped.length, restored, failed, rollbacks };
 };
 
 // Main sync function
@@ -430,6 +689,24 @@ export const syncCostToRingba = async (
   }
 
   const db = createNeonDbOps();
+  let runId = `cost_sync_${createSession().sessionId}`;
+  if (config.resumeRunId) {
+    const resumeRunId = config.resumeRunId === 'latest'
+      ? await db.getLatestIncompleteOverrideRun()
+      : config.resumeRunId;
+    if (resumeRunId) {
+      runId = resumeRunId;
+      const interrupted = await db.markInterruptedOverrides(runId);
+      console.log(`[INFO] Resuming run ${runId} (${interrupted} interrupted override(s) will be re-sent)`);
+    } else {
+      console.log('[INFO] No interrupted run to resume; starting a new run');
+    }
+  }
+  try {
+    await loadTargetMappings(db);
+  } catch (error) {
+    console.warn('[WARN] Failed to load Ringba target mappings:', (error as Error).message);
+  }
 
   // Parse date range
   const startDate = new Date(dateRange.startDate);
@@ -525,10 +802,16 @@ export const syncCostToRingba = async (
 
   // Step 3: Detect changes
   console.log('[Step 3] Detecting changes between eLocal and Ringba...');
-  const { updates, unmatched, matched } = detectChanges(elocalCalls, ringbaCalls);
+  const { updates, unmatched, matched, assignment } = detectChanges(elocalCalls, ringbaCalls);
+  const policyRules: Record<string, number> = {};
+  for (const update of updates) {
+    const ruleId = update.policyRule ?? 'default';
+    policyRules[ruleId] = (policyRules[ruleId] || 0) + 1;
+  }
   console.log(`[Step 3] ✅ Found ${updates.length} calls that need updating`);
   console.log(`         - Unmatched eLocal calls: ${unmatched.length}`);
   console.log(`         - Matched calls: ${matched.length}`);
+  printAssignmentReport('         -', assignment);
   console.log('');
 
   // Log all unmatched calls
@@ -569,6 +852,7 @@ export const syncCostToRingba = async (
         console.log(`             - New Payout: $${update.newPayout.toFixed(2)}, Revenue: $${update.newRevenue.toFixed(2)}`);
         console.log(`             - Payout Diff: $${update.payoutDiff.toFixed(2)}, Revenue Diff: $${update.revenueDiff.toFixed(2)}`);
         console.log(`             - Match Info: timeDiff=${update.matchInfo.timeDiff.toFixed(2)}min, durationMatch=${update.matchInfo.durationMatch}`);
+        console.log(`             - Policy Rule: ${update.policyRule}`);
       });
     }
     console.log('');
@@ -578,7 +862,7 @@ export const syncCostToRingba = async (
   if (matched.length > 0) {
     console.log(`[Step 3.5] Updating ringba_inbound_call_id for ${matched.length} matched calls...`);
     try {
-      const result = await db.updateRingbaInboundCallId(matched);
+      const result = await db.updateRingbaInboundCallId(matched, runId);
       console.log(`[Step 3.5] ✅ Updated ringba_inbound_call_id for ${result.updated} calls`);
       console.log('');
     } catch (error) {
@@ -600,7 +884,106 @@ export const syncCostToRingba = async (
       updates: 0,
       updated: 0,
       failed: 0,
-      unmatched: unmatched.length
+      unmatched: unmatched.length,
+      assignment,
+      runId
+    };
+  }
+
+  // Overrides already in the ledger (e.g. pushed by the run being resumed) are neither re-sent,
+  // queued for approval nor counted against the guardrails
+  let skippedApplied = 0;
+  const lastApplied = await db.getLastSuccessfulOverrides(updates.map(u => u.ringbaInboundCallId));
+  const toPush: RingbaPaymentUpdate[] = [];
+  for (const update of updates) {
+    if (alreadyApplied(update, lastApplied.get(update.ringbaInboundCallId))) {
+      skippedApplied++;
+      console.log(`[INFO] ⏭️  ${update.ringbaInboundCallId}: already applied (ringba_override_ledger), skipping`);
+      continue;
+    }
+    toPush.push(update);
+  }
+
+  // Guardrails: stop before Step 4 when the run looks like a bad feed or matching bug
+  const callDay = (value: unknown): string =>
+    value instanceof Date ? value.toISOString().slice(0, 10) : String(value ?? '').slice(0, 10);
+  const elocalDayById = new Map(elocalCalls.map((c: any) => [c.id as number, callDay(c.date_of_call)]));
+  const dayOfUpdate = (update: RingbaPaymentUpdate) => elocalDayById.get(update.elocalCallId) || 'unknown';
+  const runDays = [...new Set(toPush.map(dayOfUpdate))].filter(day => /^\d{4}-\d{2}-\d{2}$/.test(day));
+  const violations = checkGuardrails(
+    toPush,
+    matched.length,
+    dayOfUpdate,
+    await db.getPushedDeltaByDay(runDays)
+  );
+  if (violations.length > 0) {
+    violations.forEach(v => console.error(`[Guardrail] ${v.rule}: ${v.message}`));
+    if (!config.overrideGuardrails) {
+      console.error(`[Guardrail] ❌ Run blocked before Step 4; nothing was pushed. Re-run with --override-guardrails to proceed.`);
+      console.log('');
+      return {
+        dateRange: {
+          start: dateRange.startDateFormatted,
+          end: dateRange.endDateFormatted
+        },
+        category: category || 'all',
+        elocalCalls: elocalCalls.length,
+        ringbaCalls: ringbaCalls.length,
+        updates: updates.length,
+        updated: 0,
+        failed: 0,
+        unmatched: unmatched.length,
+        assignment,
+        runId,
+        alreadyApplied: skippedApplied,
+        policyRules,
+        status: 'blocked',
+        guardrailViolations: violations
+      };
+    }
+    console.warn(`[Guardrail] ⚠️  Limits exceeded but overridden (overrideGuardrails); continuing`);
+    console.log('');
+  }
+
+  // Step 4 (approval mode): queue the overrides for review instead of pushing them
+  if (approvalRequired(config.requireApproval)) {
+    console.log(`[Step 4] Approval required: queueing ${toPush.length} override(s) in pending_payment_overrides...`);
+    const elocalById = new Map(elocalCalls.map((c: any) => [c.id as number, c]));
+    const queueResult = await db.enqueuePaymentOverrides(
+      toPush.map(update => {
+        const elocalCall = elocalById.get(update.elocalCallId);
+        return {
+          update,
+          category: elocalCall?.category ?? null,
+          callTimestamp: elocalCall?.date_of_call ?? null,
+          elocalPayout: Number(elocalCall?.payout || 0)
+        };
+      }),
+      runId
+    );
+    console.log(`[Step 4] ✅ Queued ${queueResult.queued}, already queued ${queueResult.unchanged}, superseded ${queueResult.superseded}`);
+    console.log('[Step 4] Review with `npm run overrides -- list`, then `npm run overrides:push`');
+    console.log('');
+
+    return {
+      dateRange: {
+        start: dateRange.startDateFormatted,
+        end: dateRange.endDateFormatted
+      },
+      category: category || 'all',
+      elocalCalls: elocalCalls.length,
+      ringbaCalls: ringbaCalls.length,
+      updates: updates.length,
+      updated: 0,
+      failed: 0,
+      unmatched: unmatched.length,
+      assignment,
+      runId,
+      queued: queueResult.queued,
+      alreadyApplied: skippedApplied,
+      policyRules,
+      status: 'completed',
+      guardrailViolations: violations
     };
   }
 
@@ -608,47 +991,70 @@ export const syncCostToRingba = async (
   console.log('[Step 4] Updating Ringba calls...');
   let updated = 0;
   let failed = 0;
+  const pushed: Array<{ update: RingbaPaymentUpdate; ledgerId?: number }> = [];
+
+  // Push through an adaptive worker pool: it grows while Ringba answers quickly, shrinks when
+  // latency rises and halves (with a short pause) on 429s, including 429s retried inside a request
+  const maxConcurrency = pushConcurrency(config.pushConcurrency);
+  console.log(`[Step 4] Pushing ${toPush.length} override(s), up to ${maxConcurrency} at a time...`);
+  const { results, stats: pushStats } = await runAdaptive(
+    toPush,
+    async (update, index, signals) => {
+      const result = await updateRingbaCall(accountId, apiToken, update, db, runId, undefined, {
+        ...RINGBA_OVERRIDE_RETRY_POLICY,
+        onRetry: failure => {
+          if (failure.status === 429) signals.throttled();
+        }
+      });
+      const label = `[Step 4] [${index + 1}/${toPush.length}] ${update.ringbaInboundCallId} (eLocal #${update.elocalCallId}, target ${update.targetId || 'N/A'})`;
+      const amounts = `payout $${update.currentPayout.toFixed(2)} → $${update.newPayout.toFixed(2)}, revenue $${update.currentRevenue.toFixed(2)} → $${update.newRevenue.toFixed(2)}`;
+      if (result.success) {
+        await recordPushedChange(db, update, runId);
+        console.log(`${label}: ✅ ${amounts}`);
+      } else {
+        console.error(`${label}: ❌ ${amounts} failed: ${result.error}`);
+      }
+      return result;
+    },
+    {
+      maxConcurrency,
+      latencyThresholdMs: Number(process.env.RINGBA_PUSH_LATENCY_MS || 3000),
+      isError: result => !result.success,
+      isThrottled: result => result.httpStatus === 429
+    }
+  );
 
-  // Process updates with small delay to avoid rate limiting
-  for (let i = 0; i < updates.length; i++) {
-    const update = updates[i];
-    const startTime = new Date().toISOString();
-
-    console.log(`[Step 4] [${i + 1}/${updates.length}] Updating call ${update.ringbaInboundCallId}...`);
-    console.log(`         - Call ID: ${update.ringbaInboundCallId}`);
-    console.log(`         - Target ID: ${update.targetId || 'N/A'}`);
-    console.log(`         - eLocal Call ID: ${update.elocalCallId}`);
-    console.log(`         - Start Time: ${startTime}`);
-    console.log(`         - Current: payout=$${update.currentPayout.toFixed(2)}, revenue=$${update.currentRevenue.toFixed(2)}`);
-    console.log(`         - New: payout=$${update.newPayout.toFixed(2)}, revenue=$${update.newRevenue.toFixed(2)}`);
-    console.log(`         - Match Info: timeDiff=${update.matchInfo.timeDiff.toFixed(2)}min, durationMatch=${update.matchInfo.durationMatch}`);
-
-    const result = await updateRingbaCall(accountId, apiToken, update);
-    const endTime = new Date().toISOString();
-    const duration = ((new Date(endTime).getTime() - new Date(startTime).getTime()) / 1000).toFixed(2);
-
+  results.forEach((result, i) => {
     if (result.success) {
       updated++;
-      console.log(`         ✅ Successfully updated`);
-      console.log(`         - End Time: ${endTime}`);
-      console.log(`         - Duration: ${duration}s`);
+      pushed.push({ update: toPush[i], ledgerId: result.ledgerId });
     } else {
       failed++;
-      console.error(`         ❌ Failed: ${result.error}`);
-      console.error(`         - End Time: ${endTime}`);
-      console.error(`         - Duration: ${duration}s`);
     }
+  });
 
-    // Small delay between requests
-    if (i < updates.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, 500));
-    }
-  }
-
+  console.log(
+    `[Step 4] ${toPush.length} override(s) in ${(pushStats.durationMs / 1000).toFixed(1)}s: ` +
+    `${pushStats.throughputPerSecond.toFixed(2)}/s, error rate ${(pushStats.errorRate * 100).toFixed(1)}%, ` +
+    `${pushStats.throttled} throttled, concurrency ${pushStats.concurrency.min}-${pushStats.concurrency.max} (final ${pushStats.concurrency.final})`
+  );
   console.log('');
-  console.log(`[Step 4] ✅ Updated ${updated} calls, ${failed} failed`);
+  console.log(`[Step 4] ✅ Updated ${updated} calls, ${failed} failed, ${skippedApplied} already applied`);
   console.log('');
 
+  // Step 5: Verify the pushed overrides against the Ringba call log
+  let verification: OverrideVerificationSummary | undefined;
+  if (pushed.length > 0 && verificationEnabled(config.verifyOverrides)) {
+    console.log(`[Step 5] Verifying ${pushed.length} override(s) against the Ringba call log...`);
+    verification = await verifyPushedOverrides(accountId, apiToken, db, runId, pushed, {
+      // The eLocal query is buffered a day either side; Ringba's call log is in UTC
+      startDate: new Date(dateRange.startDate.getTime() - 2 * 86_400_000),
+      endDate: new Date(dateRange.endDate.getTime() + 2 * 86_400_000)
+    });
+    console.log(`[Step 5] ✅ Verified ${verification.verified}, retried ${verification.retried}, mismatched ${verification.mismatched}, unchecked ${verification.unchecked}`);
+    console.log('');
+  }
+
   // Summary
   const summary: RingbaCostSyncSummary = {
     dateRange: {
@@ -661,7 +1067,15 @@ export const syncCostToRingba = async (
     updates: updates.length,
     updated: updated,
     failed: failed,
-    unmatched: unmatched.length
+    unmatched: unmatched.length,
+    assignment,
+    runId,
+    alreadyApplied: skippedApplied,
+    policyRules,
+    status: 'completed',
+    guardrailViolations: violations,
+    verification,
+    push: pushStats
   };
 
   console.log('='.repeat(70));
@@ -674,7 +1088,20 @@ export const syncCostToRingba = async (
   console.log(`Changes Detected:      ${summary.updates}`);
   console.log(`Successfully Updated:  ${summary.updated}`);
   console.log(`Failed:                ${summary.failed}`);
+  console.log(`Already Applied:       ${summary.alreadyApplied}`);
+  console.log(`Push Throughput:       ${pushStats.throughputPerSecond.toFixed(2)}/s (error rate ${(pushStats.errorRate * 100).toFixed(1)}%)`);
   console.log(`Unmatched:             ${summary.unmatched}`);
+  for (const [ruleId, count] of Object.entries(policyRules)) {
+    console.log(`  Policy ${ruleId}: ${count} override(s)`);
+  }
+  if (verification) {
+    console.log(`Verified:              ${verification.verified}`);
+    console.log(`Mismatched:            ${verification.mismatched}`);
+    verification.mismatches.forEach(m => {
+      const actual = m.actualPayout === null ? 'not in call log' : `payout $${m.actualPayout.toFixed(2)}, revenue $${(m.actualRevenue ?? 0).toFixed(2)}`;
+      console.log(`  ${m.ringbaInboundCallId}: sent payout $${m.expectedPayout.toFixed(2)}, revenue $${m.expectedRevenue.toFixed(2)}; ${actual}`);
+    });
+  }
   console.log('='.repeat(70));
   console.log('');
 
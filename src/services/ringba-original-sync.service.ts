@@ -6,201 +6,74 @@
 import { createNeonDbOps } from '../database/neon-operations.js';
 import { convertRingbaDateToEST } from '../utils/date-normalizer.js';
 import {
-  getCallsByTargetId,
-  TARGET_IDS,
+  getTargetIds,
+  getTargetName,
   getCategoryFromTargetId,
   type RingbaCallRecord,
 } from '../http/ringba-target-calls.js';
+import {
+  toE164,
+  decideMatch,
+  getMatchProfile,
+  candidateFromElocalRecord,
+  candidateFromRingbaCall,
+  toMatchLinkInfo,
+} from '../utils/call-matching.js';
+import {
+  ASSIGNMENT_COSTS,
+  assignOptimal,
+  diffAssignments,
+  getAssignmentSettings,
+  printAssignmentReport,
+  type AssignedPair,
+  type AssignmentGroup,
+} from '../utils/call-assignment.js';
+import { fetchRingbaChunks, planTargetDayChunks } from '../http/ringba-fetch-planner.js';
+import { discoverRingbaTargets, loadTargetMappings } from './ringba-target-discovery.service.js';
+import { ingestRingbaRecordings, recordingsEnabled } from './ringba-recording-ingest.service.js';
+import { createSession, hashResultSet, watermarksEnabled } from '../utils/helpers.js';
 import type {
   DateRange,
   RingbaOriginalSyncConfig,
   RingbaCallForSync,
   RingbaOriginalSyncSummary,
+  RecordingIngestSummary,
   Category,
+  AssignmentReport,
+  MatchLinkInfo,
 } from '../types/index.js';
 import type { DatabaseCallRecord } from '../types/index.js';
 
-const toE164 = (raw: string | null | undefined): string | null => {
-  if (!raw) return null;
-  const digits = (raw || '').replace(/\D/g, '');
-  if (!digits) return null;
-  if (raw.startsWith('+')) return raw;
-  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
-  if (digits.length === 10) return `+1${digits}`;
-  return digits.length > 0 ? `+${digits}` : null;
-};
-
-function parseDate(dateStr: string | null | undefined): Date | null {
-  if (!dateStr) return null;
-  try {
-    const date = new Date(dateStr);
-    if (!Number.isNaN(date.getTime())) return date;
-    const ringbaFormat = dateStr.match(
-      /^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2}):(\d{2})\s+(AM|PM)$/i
-    );
-    if (ringbaFormat) {
-      const month = parseInt(ringbaFormat[1], 10) - 1;
-      const day = parseInt(ringbaFormat[2], 10);
-      const year = parseInt(ringbaFormat[3], 10);
-      let hours = parseInt(ringbaFormat[4], 10);
-      const minutes = parseInt(ringbaFormat[5], 10);
-      const seconds = parseInt(ringbaFormat[6], 10);
-      const ampm = ringbaFormat[7].toUpperCase();
-      if (ampm === 'PM' && hours !== 12) hours += 12;
-      else if (ampm === 'AM' && hours === 12) hours = 0;
-      return new Date(year, month, day, hours, minutes, seconds);
-    }
-    const isoMatch = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/);
-    if (isoMatch) {
-      return new Date(
-        parseInt(isoMatch[1], 10),
-        parseInt(isoMatch[2], 10) - 1,
-        parseInt(isoMatch[3], 10),
-        parseInt(isoMatch[4], 10),
-        parseInt(isoMatch[5], 10),
-        parseInt(isoMatch[6], 10)
-      );
-    }
-    const yyyy = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-    if (yyyy) {
-      return new Date(parseInt(yyyy[1], 10), parseInt(yyyy[2], 10) - 1, parseInt(yyyy[3], 10));
-    }
-  } catch {
-    // ignore
+function toSyncCall(call: RingbaCallRecord, targetId: string): RingbaCallForSync {
+  const payout = Number(call.ringbaCost ?? call.payout ?? 0);
+  const revenue = Number(call.revenue ?? 0);
+  const ringbaCallerId = call.callerId ?? null;
+  const callerIdE164 = ringbaCallerId
+    ? ringbaCallerId.startsWith('+')
+      ? ringbaCallerId
+      : toE164(ringbaCallerId)
+    : null;
+  let callDtEST = call.callDate ?? '';
+  const callDtOriginal = callDtEST;
+  if (callDtEST) {
+    const converted = convertRingbaDateToEST(callDtEST);
+    if (converted) callDtEST = converted;
   }
-  return null;
-}
-
-function timeDiffMinutes(date1: Date | null, date2: Date | null): number {
-  if (!date1 || !date2) return Infinity;
-  return Math.abs(date1.getTime() - date2.getTime()) / (1000 * 60);
-}
-
-async function fetchAllRingbaCalls(
-  accountId: string,
-  apiToken: string,
-  startDate: Date,
-  endDate: Date
-): Promise<RingbaCallForSync[]> {
-  const allCalls: RingbaCallForSync[] = [];
-  for (const [targetId, targetName] of Object.entries(TARGET_IDS)) {
-    try {
-      const resultEither = await getCallsByTargetId(accountId, apiToken)(targetId, {
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
-        pageSize: 1000,
-      })();
-      if (resultEither._tag === 'Left') {
-        console.error(`[Ringba Original Sync] Failed target ${targetId}:`, resultEither.left);
-        continue;
-      }
-      const result = resultEither.right;
-      const calls = result.calls;
-      for (const call of calls as RingbaCallRecord[]) {
-        const payout = Number(call.ringbaCost ?? call.payout ?? 0);
-        const revenue = Number(call.revenue ?? 0);
-        const ringbaCallerId = call.callerId ?? null;
-        const callerIdE164 = ringbaCallerId
-          ? ringbaCallerId.startsWith('+')
-            ? ringbaCallerId
-            : toE164(ringbaCallerId)
-          : null;
-        let callDtEST = call.callDate ?? '';
-        const callDtOriginal = callDtEST;
-        if (callDtEST) {
-          const converted = convertRingbaDateToEST(callDtEST);
-          if (converted) callDtEST = converted;
-        }
-        allCalls.push({
-          inboundCallId: call.inboundCallId ?? '',
-          callDt: callDtEST,
-          callDtOriginal,
-          callerId: ringbaCallerId,
-          callerIdE164,
-          inboundPhoneNumber: call.inboundPhoneNumber ?? null,
-          payout,
-          revenue,
-          callDuration: call.callDuration ?? 0,
-          targetId,
-          targetName: call.targetName ?? targetName,
-          campaignName: call.campaignName ?? null,
-          publisherName: call.publisherName ?? null,
-        });
-      }
-      await new Promise((r) => setTimeout(r, 500));
-    } catch (e) {
-      console.error(`[Ringba Original Sync] Exception target ${targetId}:`, (e as Error).message);
-    }
-  }
-  return allCalls;
-}
-
-interface MatchResult {
-  elocalCall: DatabaseCallRecord;
-  ringbaCall: RingbaCallForSync;
-  matchScore: number;
-  timeDiff: number;
-  payoutDiff: number;
-  payoutMatch: boolean;
-}
-
-function matchCall(
-  ringbaCall: RingbaCallForSync,
-  elocalCall: DatabaseCallRecord,
-  windowMinutes = 120,
-  payoutTolerance = 0.01
-): MatchResult | null {
-  // Parse dates - use parseDate (not parseDateAsEastern) to match ringbav2 behavior
-  // ringbav2 uses parseDate which treats dates as local time, then uses .toISOString() for comparison
-  const elocalDate = parseDate(elocalCall.call_timestamp);
-  const ringbaDate = parseDate(ringbaCall.callDt);
-  if (!elocalDate || !ringbaDate) return null;
-
-  // Check if dates are on the same day or adjacent days
-  // Use .toISOString().split('T')[0] to match ringbav2 exactly (line 352-353)
-  const elocalDateStr = elocalDate.toISOString().split('T')[0];
-  const ringbaDateStr = ringbaDate.toISOString().split('T')[0];
-  const elocalDateOnly = new Date(elocalDateStr);
-  const ringbaDateOnly = new Date(ringbaDateStr);
-  const daysDiff = Math.abs((elocalDateOnly.getTime() - ringbaDateOnly.getTime()) / (1000 * 60 * 60 * 24));
-
-  if (daysDiff > 1) return null;
-
-  // Calculate time difference in minutes, but only using hour and minutes (ignore seconds)
-  // Set seconds to 0 for both dates before comparing (matches ringbav2 line 363-368)
-  const elocalTimeOnly = new Date(elocalDate);
-  elocalTimeOnly.setSeconds(0, 0);
-  const ringbaTimeOnly = new Date(ringbaDate);
-  ringbaTimeOnly.setSeconds(0, 0);
-  const timeDiff = timeDiffMinutes(elocalTimeOnly, ringbaTimeOnly);
-
-  const effectiveWindow = daysDiff === 0 ? windowMinutes : 24 * 60; // 24 hours if different days
-
-  if (timeDiff > effectiveWindow) return null;
-
-  // Use ringba_revenue as the authoritative eLocal payout (per design: eLocal owns ringba_revenue)
-  const elocalPayout = Number(elocalCall.ringba_revenue ?? 0);
-  const ringbaPayout = Number(ringbaCall.payout ?? 0);
-  const payoutDiff = Math.abs(elocalPayout - ringbaPayout);
-
-  // Calculate match score (lower is better)
-  let matchScore = timeDiff;
-
-  if (elocalPayout > 0 && ringbaPayout > 0) {
-    if (payoutDiff <= payoutTolerance) {
-      matchScore = timeDiff * 0.1; // Exact payout match
-    } else {
-      matchScore = timeDiff + payoutDiff * 10; // Penalize payout differences
-    }
-  }
-
   return {
-    elocalCall,
-    ringbaCall,
-    matchScore,
-    timeDiff,
-    payoutDiff,
-    payoutMatch: payoutDiff <= payoutTolerance,
+    inboundCallId: call.inboundCallId ?? '',
+    callDt: callDtEST,
+    callDtOriginal,
+    callerId: ringbaCallerId,
+    callerIdE164,
+    inboundPhoneNumber: call.inboundPhoneNumber ?? null,
+    payout,
+    revenue,
+    callDuration: call.callDuration ?? 0,
+    targetId,
+    targetName: call.targetName ?? getTargetName(targetId),
+    campaignName: call.campaignName ?? null,
+    publisherName: call.publisherName ?? null,
+    ...(call.extra ? { extra: call.extra } : {}),
   };
 }
 
@@ -210,9 +83,31 @@ interface PrepareUpdatesResult {
     ringbaInboundCallId: string;
     originalPayout: number;
     originalRevenue: number;
+    match: MatchLinkInfo;
   }>;
   unmatched: number;
   skipped: number;
+  assignment: AssignmentReport;
+}
+
+// Previous assignment of a (category, caller) group, kept to report how the optimal one differs:
+// each Ringba call in turn takes its best-scoring eLocal call not linked yet (matches ringbav2 line 275-294)
+function greedyAssignment(group: AssignmentGroup): AssignedPair[] {
+  const pairs: AssignedPair[] = [];
+  const linkedElocal = new Set<number>();
+  for (let ringbaIndex = 0; ringbaIndex < group.ringba.length; ringbaIndex++) {
+    let best: AssignedPair | null = null;
+    for (let elocalIndex = 0; elocalIndex < group.elocal.length; elocalIndex++) {
+      const decision = group.decisions[elocalIndex][ringbaIndex];
+      if (linkedElocal.has(elocalIndex) || !decision.matched) continue;
+      if (!best || decision.score < best.decision.score) best = { elocalIndex, ringbaIndex, decision };
+    }
+    if (best) {
+      linkedElocal.add(best.elocalIndex);
+      pairs.push(best);
+    }
+  }
+  return pairs;
 }
 
 function matchAndPrepareUpdates(
@@ -247,10 +142,14 @@ function matchAndPrepareUpdates(
     callsByCaller.get(callerE164)!.push(elocalCall);
   }
 
-  // Track which eLocal calls have been matched
-  const matchedElocalIds = new Set<number>();
+  // Group Ringba calls with their candidate eLocal calls by (category, caller)
+  const groups = new Map<string, {
+    category: Category;
+    caller: string;
+    ringbaCalls: RingbaCallForSync[];
+    elocalCalls: DatabaseCallRecord[];
+  }>();
 
-  // Match each Ringba call (matches ringbav2 line 246-294)
   for (const ringbaCall of ringbaCalls) {
     // Step 1: Match by target ID (which corresponds to category)
     const ringbaCategory = getCategoryFromTargetId(ringbaCall.targetId);
@@ -267,63 +166,80 @@ function matchAndPrepareUpdates(
     }
 
     // Get eLocal calls for this category and caller ID
-    const categoryCalls = elocalCallsByCategoryAndCaller.get(ringbaCategory);
-    if (!categoryCalls) {
-      unmatched++;
-      continue;
-    }
-
-    const candidateElocalCalls = categoryCalls.get(callerE164) || [];
-
+    const candidateElocalCalls = elocalCallsByCategoryAndCaller.get(ringbaCategory)?.get(callerE164) || [];
     if (candidateElocalCalls.length === 0) {
       unmatched++;
       continue;
     }
 
-    // Step 3: Find best match by time (hour:minute only, ignore seconds)
-    // Matches ringbav2 line 275-294
-    let bestMatch: MatchResult | null = null;
-    let bestScore = Infinity;
-
-    for (const elocalCall of candidateElocalCalls) {
-      if (matchedElocalIds.has(elocalCall.id)) {
-        continue; // Already matched
-      }
-
-      const match = matchCall(ringbaCall, elocalCall);
-      if (match && match.matchScore < bestScore) {
-        bestMatch = match;
-        bestScore = match.matchScore;
-      }
-    }
-
-    if (!bestMatch) {
-      unmatched++;
-      continue;
+    const key = `${ringbaCategory}|${callerE164}`;
+    if (!groups.has(key)) {
+      groups.set(key, { category: ringbaCategory, caller: callerE164, ringbaCalls: [], elocalCalls: candidateElocalCalls });
     }
+    groups.get(key)!.ringbaCalls.push(ringbaCall);
+  }
 
-    matchedElocalIds.add(bestMatch.elocalCall.id);
-
-    // Check if original_payout or original_revenue already exist (preserve original Ringba data)
-    const existingOriginalPayout = Number(bestMatch.elocalCall.ringba_original_payout ?? 0);
-    const existingOriginalRevenue = Number(bestMatch.elocalCall.ringba_revenue ?? 0);
-    const hasExistingData = existingOriginalPayout !== 0 || existingOriginalRevenue !== 0;
+  // Step 3: Link calls within each group with the shared match profile of src/utils/call-matching.ts (time,
+  // duration, preferring equal payouts): optimal (min-cost) or the previous greedy assignment
+  const { method, cost } = getAssignmentSettings();
+  const assignment: AssignmentReport = {
+    method, cost, groups: 0, differingGroups: 0, linkedGreedy: 0, linkedOptimal: 0, differences: [],
+  };
 
-    // Always update if we have a match - but for rows with existing payout/revenue,
-    // only update ringba_id (the updateOriginalPayout uses COALESCE to preserve existing values)
-    updates.push({
-      elocalCallId: bestMatch.elocalCall.id,
-      ringbaInboundCallId: ringbaCall.inboundCallId,
-      originalPayout: ringbaCall.payout,
-      originalRevenue: ringbaCall.revenue,
-    });
+  for (const group of groups.values()) {
+    const profile = getMatchProfile('original_sync', group.category);
+    const elocal = group.elocalCalls.map(candidateFromElocalRecord);
+    const ringba = group.ringbaCalls.map(candidateFromRingbaCall);
+    const candidates: AssignmentGroup = {
+      elocal,
+      ringba,
+      decisions: elocal.map((e) => ringba.map((r) => decideMatch(e, r, profile))),
+    };
+
+    const greedy = greedyAssignment(candidates);
+    const optimal = assignOptimal(candidates, ASSIGNMENT_COSTS[cost]);
+    const chosen = method === 'optimal' ? optimal : greedy;
+    unmatched += group.ringbaCalls.length - chosen.length;
+    if (greedy.length === 0 && optimal.length === 0) continue;
+
+    const differences = diffAssignments(
+      candidates, greedy, optimal, group.category, group.caller,
+      (j) => group.ringbaCalls[j].inboundCallId
+    );
+    assignment.groups++;
+    assignment.linkedGreedy += greedy.length;
+    assignment.linkedOptimal += optimal.length;
+    if (differences.length > 0) {
+      assignment.differingGroups++;
+      assignment.differences.push(...differences);
+    }
 
-    if (hasExistingData) {
-      skipped++;
+    for (const pair of chosen) {
+      const elocalCall = group.elocalCalls[pair.elocalIndex];
+      const ringbaCall = group.ringbaCalls[pair.ringbaIndex];
+
+      // Check if original_payout or original_revenue already exist (preserve original Ringba data)
+      const existingOriginalPayout = Number(elocalCall.ringba_original_payout ?? 0);
+      const existingOriginalRevenue = Number(elocalCall.ringba_revenue ?? 0);
+      const hasExistingData = existingOriginalPayout !== 0 || existingOriginalRevenue !== 0;
+
+      // Always update if we have a match - but for rows with existing payout/revenue,
+      // only update ringba_id (the updateOriginalPayout uses COALESCE to preserve existing values)
+      updates.push({
+        elocalCallId: elocalCall.id,
+        ringbaInboundCallId: ringbaCall.inboundCallId,
+        originalPayout: ringbaCall.payout,
+        originalRevenue: ringbaCall.revenue,
+        match: toMatchLinkInfo('original_sync', pair.decision, method),
+      });
+
+      if (hasExistingData) {
+        skipped++;
+      }
     }
   }
 
-  return { updates, unmatched, skipped };
+  return { updates, unmatched, skipped, assignment };
 }
 
 export async function syncRingbaOriginalPayout(
@@ -337,6 +253,7 @@ export async function syncRingbaOriginalPayout(
     throw new Error('Ringba account ID and API token are required');
   }
   const db = createNeonDbOps();
+  const runId = `original_sync_${createSession().sessionId}`;
 
   // Full range in UTC (EST-aligned: 00:00 EST = 05:00 UTC, 23:59 EST = 04:59 UTC next day)
   const rangeStart = new Date(dateRange.startDate);
@@ -377,41 +294,89 @@ export async function syncRingbaOriginalPayout(
   console.log(`Date Range: ${dateRange.startDateFormatted} to ${dateRange.endDateFormatted}${categoryLabel}`);
   console.log('');
 
-  // Step 1: Fetch Ringba calls for each day in the range (so multi-day range fetches all days)
+  // Refresh ringba_targets so newly added Ringba targets are seen (and synced once mapped)
+  let targetWarnings: string[] = [];
+  try {
+    const discovery = await discoverRingbaTargets(accountId, apiToken, db);
+    targetWarnings = discovery.warnings;
+    console.log(
+      `[Targets] ${discovery.total} Ringba target(s), ${discovery.discovered.length} new, ${discovery.unmapped.length} unmapped`
+    );
+  } catch (error) {
+    console.warn('[WARN] Ringba target discovery failed; using stored mappings:', (error as Error).message);
+    await loadTargetMappings(db).catch(() => []);
+  }
+  console.log('');
+
+  // Step 1: Fetch every (target, day) chunk of the range concurrently under the account's request budget
   console.log('[Step 1] Fetching calls from Ringba...');
-  const allRingbaCalls: RingbaCallForSync[] = [];
-  const seenInboundIds = new Set<string>();
-  for (let d = new Date(rangeStart); d <= rangeEnd; d.setDate(d.getDate() + 1)) {
-    const y = d.getFullYear();
-    const m = d.getMonth();
-    const day = d.getDate();
-    const dayStartUTC = new Date(Date.UTC(y, m, day, 5, 0, 0, 0));
-    const dayEndUTC = new Date(Date.UTC(y, m, day + 1, 4, 59, 59, 999));
-    const dayCalls = await fetchAllRingbaCalls(accountId, apiToken, dayStartUTC, dayEndUTC);
-    for (const c of dayCalls) {
-      if (c.inboundCallId && !seenInboundIds.has(c.inboundCallId)) {
-        seenInboundIds.add(c.inboundCallId);
-        allRingbaCalls.push(c);
-      }
+  // With watermarks, (target, day) result sets identical to the last fetch are matched below but not re-saved
+  const useWatermarks = watermarksEnabled(config.useWatermarks);
+  const changedInboundIds = new Set<string>();
+  const pendingWatermarks: Array<{ scopeKey: string; day: string; contentHash: string; recordCount: number }> = [];
+  let unchangedTargetDays = 0;
+  const fetchPlan = await fetchRingbaChunks(
+    accountId,
+    apiToken,
+    planTargetDayChunks(Object.keys(getTargetIds()), rangeStart, rangeEnd),
+    { concurrency: config.fetchConcurrency, requestsPerSecond: config.requestsPerSecond }
+  );
+
+  for (const chunk of fetchPlan.chunks) {
+    const targetCalls = chunk.calls.map((c) => toSyncCall(c, chunk.targetId));
+    if (!useWatermarks || chunk.error) {
+      targetCalls.forEach((c) => changedInboundIds.add(c.inboundCallId));
+      continue;
     }
+    const contentHash = hashResultSet(targetCalls);
+    let previousHash: string | undefined;
+    try {
+      previousHash = (await db.getSyncWatermarks('ringba', chunk.targetId, [chunk.day])).get(chunk.day);
+    } catch (error) {
+      console.warn(`[WARN] Failed to load sync watermark for ${chunk.targetId} ${chunk.day}:`, (error as Error).message);
+    }
+    if (previousHash === contentHash) {
+      unchangedTargetDays++;
+    } else {
+      targetCalls.forEach((c) => changedInboundIds.add(c.inboundCallId));
+    }
+    pendingWatermarks.push({ scopeKey: chunk.targetId, day: chunk.day, contentHash, recordCount: targetCalls.length });
   }
-  const ringbaCalls = allRingbaCalls;
+
+  const ringbaCalls = fetchPlan.calls
+    .filter((c) => c.inboundCallId)
+    .map((c) => toSyncCall(c, c.targetId));
   console.log(`[Step 1] Fetched ${ringbaCalls.length} calls from Ringba`);
+  if (unchangedTargetDays > 0) {
+    console.log(`[Step 1] ${unchangedTargetDays} target-day(s) unchanged since the last fetch; not re-saving them`);
+  }
 
   console.log('[Step 2] Saving Ringba calls to database...');
-  const saveResult = await db.insertRingbaCallsBatch(ringbaCalls);
+  const callsToSave = ringbaCalls.filter((c) => changedInboundIds.has(c.inboundCallId));
+  const saveResult = await db.insertRingbaCallsBatch(callsToSave, runId);
   console.log(`[Step 2] Inserted: ${saveResult.inserted}, Updated: ${saveResult.updated}, Skipped: ${saveResult.skipped}`);
 
+  // Only advance watermarks when every row saved, so a partial failure is retried next run
+  if (saveResult.skipped === 0) {
+    for (const w of pendingWatermarks) {
+      try {
+        await db.saveSyncWatermark({ source: 'ringba', ...w });
+      } catch (error) {
+        console.warn(`[WARN] Failed to save sync watermark for ${w.scopeKey} ${w.day}:`, (error as Error).message);
+      }
+    }
+  }
+
   console.log(`[Step 3] Fetching eLocal calls${categoryLabel}...`);
   const elocalCalls = await db.getCallsForDateRange(fullRangeStartUTC, fullRangeEndUTC, category);
   console.log(`[Step 3] Fetched ${elocalCalls.length} eLocal calls`);
 
   let updatedCount = 0;
   let failedCount = 0;
-  const { updates, unmatched, skipped } =
+  const { updates, unmatched, skipped, assignment } =
     elocalCalls.length > 0 && ringbaCalls.length > 0
       ? matchAndPrepareUpdates(ringbaCalls, elocalCalls)
-      : { updates: [] as PrepareUpdatesResult['updates'], unmatched: 0, skipped: 0 };
+      : { updates: [] as PrepareUpdatesResult['updates'], unmatched: 0, skipped: 0, assignment: undefined };
 
   const matchedElocalCount = updates.length;
   const unmatchedElocalCount = elocalCalls.length - matchedElocalCount;
@@ -422,6 +387,7 @@ export async function syncRingbaOriginalPayout(
   console.log(`  - Ringba calls with existing data (updated ID only): ${skipped}`);
   console.log(`  - eLocal calls matched: ${matchedElocalCount} (of ${elocalCalls.length})`);
   console.log(`  - eLocal calls unmatched: ${unmatchedElocalCount}`);
+  if (assignment) printAssignmentReport('  -', assignment);
 
   if (updates.length > 0) {
     console.log('[Step 5] Updating ringba_original_payout and ringba_revenue...');
@@ -432,7 +398,9 @@ export async function syncRingbaOriginalPayout(
           u.elocalCallId,
           u.originalPayout,
           u.originalRevenue, // kept for API compatibility — ringba_revenue is now owned by eLocal fetch service
-          u.ringbaInboundCallId
+          u.ringbaInboundCallId,
+          runId,
+          u.match
         );
         if (result.updated > 0) updatedCount++;
         else failedCount++;
@@ -443,6 +411,20 @@ export async function syncRingbaOriginalPayout(
     console.log(`[Step 5] Updated: ${updatedCount}, Failed: ${failedCount}`);
   }
 
+  let recordings: RecordingIngestSummary | undefined;
+  if (recordingsEnabled(config.fetchRecordings)) {
+    console.log('[Step 6] Fetching recordings and transcripts...');
+    try {
+      recordings = await ingestRingbaRecordings(accountId, apiToken, db, dateRange, category);
+      console.log(
+        `[Step 6] ${recordings.transcripts} transcript(s) stored, ` +
+          `${recordings.recordingsOnly + recordings.notReady} not ready yet, ${recordings.failed} failed`
+      );
+    } catch (error) {
+      console.error('[Step 6] Recording ingestion failed:', (error as Error).message);
+    }
+  }
+
   const result: RingbaOriginalSyncSummary = {
     dateRange: { start: dateRange.startDateFormatted, end: dateRange.endDateFormatted },
     category: category ?? 'all',
@@ -456,6 +438,11 @@ export async function syncRingbaOriginalPayout(
     failed: failedCount,
     unmatched,
     skippedPreserved: skipped,
+    runId,
+    unchangedTargetDays,
+    ...(targetWarnings.length > 0 ? { targetWarnings } : {}),
+    ...(assignment ? { assignment } : {}),
+    ...(recordings ? { recordings } : {}),
   };
 
   console.log('='.repeat(70));
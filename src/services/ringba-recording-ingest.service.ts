@@ -0,0 +1,102 @@
+/**
+ * Ringba Recording/Transcript Ingestion (TypeScript).
+ * Fills ringba_call_data."recordingUrl" and transcript for calls in a date range from the Ringba
+ * call log. Calls that already have a transcript are skipped; calls whose recording or transcript
+ * Ringba has not finished yet are retried on later runs with a growing delay
+ * (ringba_recording_status), until RINGBA_RECORDING_MAX_ATTEMPTS is reached.
+ */
+import { getCallRecordings } from '../http/ringba-recordings.js';
+import type { NeonDbOps } from '../database/neon-operations.js';
+import type {
+  DateRange,
+  Category,
+  RecordingCandidate,
+  RecordingIngestSummary,
+  RecordingStatus,
+} from '../types/index.js';
+
+const BATCH_SIZE = 100;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30 * 60 * 1000;
+const RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+/** Delay before the next attempt after `attempts` not-ready results: 30 min, doubling, capped at a day */
+const nextRetryAt = (attempts: number): Date =>
+  new Date(Date.now() + Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1)));
+
+export const recordingsEnabled = (configured: boolean | undefined): boolean =>
+  configured ?? process.env.RINGBA_FETCH_RECORDINGS === 'true';
+
+/**
+ * Fetch and store recordings/transcripts for the calls in the range that still lack a transcript.
+ */
+export const ingestRingbaRecordings = async (
+  accountId: string,
+  apiToken: string,
+  db: NeonDbOps,
+  dateRange: DateRange,
+  category: Category | null = null
+): Promise<RecordingIngestSummary> => {
+  const maxAttempts = Number(process.env.RINGBA_RECORDING_MAX_ATTEMPTS) || DEFAULT_MAX_ATTEMPTS;
+  const candidates = await db.getCallsNeedingTranscripts(dateRange.startDate, dateRange.endDate, category);
+  const summary: RecordingIngestSummary = {
+    candidates: candidates.length,
+    transcripts: 0,
+    recordingsOnly: 0,
+    notReady: 0,
+    unavailable: 0,
+    failed: 0,
+  };
+  const fetchRecordings = getCallRecordings(accountId, apiToken);
+
+  for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+    const batch: RecordingCandidate[] = candidates.slice(i, i + BATCH_SIZE);
+    const times = batch.map((c) => new Date(c.call_timestamp).getTime()).filter((t) => !Number.isNaN(t));
+    const resultEither = await fetchRecordings(
+      batch.map((c) => c.ringba_id),
+      {
+        // A day either side covers EST/UTC shifts between our timestamps and Ringba's
+        startDate: new Date((times.length ? Math.min(...times) : dateRange.startDate.getTime()) - 86_400_000),
+        endDate: new Date((times.length ? Math.max(...times) : dateRange.endDate.getTime()) + 2 * 86_400_000),
+      }
+    )();
+    if (resultEither._tag === 'Left') {
+      console.error(`[Recordings] Batch ${i / BATCH_SIZE + 1} failed:`, resultEither.left.message);
+      summary.failed += batch.length;
+      continue;
+    }
+
+    const found = resultEither.right;
+    const rows: Array<{ id: number; recordingUrl: string | null; transcript: string | null }> = [];
+    const attempts: Array<{ ringbaId: string; status: RecordingStatus; nextRetryAt: Date | null }> = [];
+    for (const call of batch) {
+      const info = found.get(call.ringba_id);
+      if (info?.transcript) {
+        rows.push({ id: call.id, recordingUrl: info.recordingUrl, transcript: info.transcript });
+        attempts.push({ ringbaId: call.ringba_id, status: 'ready', nextRetryAt: null });
+        summary.transcripts++;
+        continue;
+      }
+      if (info?.recordingUrl && info.recordingUrl !== call.recordingUrl) {
+        rows.push({ id: call.id, recordingUrl: info.recordingUrl, transcript: null });
+      }
+      if (call.attempts + 1 >= maxAttempts) {
+        attempts.push({ ringbaId: call.ringba_id, status: 'unavailable', nextRetryAt: null });
+        summary.unavailable++;
+      } else {
+        attempts.push({ ringbaId: call.ringba_id, status: 'pending', nextRetryAt: nextRetryAt(call.attempts + 1) });
+        if (info?.recordingUrl) summary.recordingsOnly++;
+        else summary.notReady++;
+      }
+    }
+
+    await db.saveCallRecordings(rows);
+    await db.recordRecordingAttempts(attempts);
+    console.log(
+      `[Recordings] ${Math.min(i + BATCH_SIZE, candidates.length)}/${candidates.length} checked ` +
+        `(${summary.transcripts} transcripts, ${summary.recordingsOnly + summary.notReady} not ready)`
+    );
+  }
+
+  return summary;
+};
@@ -0,0 +1,65 @@
+/**
+ * Ringba Target Discovery Service (TypeScript).
+ * Pulls the target list from the Ringba API into ringba_targets and registers the targets that are
+ * mapped to a category there, so new Ringba targets are synced once mapped instead of needing a
+ * campaign registry change.
+ */
+import { listRingbaTargets } from '../http/ringba-targets.js';
+import { getCategoryForTarget, registerDiscoveredTargets } from '../config/campaign-registry.js';
+import type { NeonDbOps } from '../database/neon-operations.js';
+import type { RingbaTargetRecord, RingbaTargetDiscoverySummary } from '../types/index.js';
+
+const registerRows = (rows: RingbaTargetRecord[]): void => {
+  registerDiscoveredTargets(
+    rows.map((r) => ({ id: r.target_id, name: r.target_name, category: r.category, enabled: r.enabled }))
+  );
+};
+
+/**
+ * Register the category mappings already stored in ringba_targets (no Ringba API call).
+ */
+export const loadTargetMappings = async (db: NeonDbOps): Promise<RingbaTargetRecord[]> => {
+  const rows = await db.getRingbaTargets();
+  registerRows(rows);
+  return rows;
+};
+
+/**
+ * Fetch the Ringba target list, upsert it into ringba_targets and register the mapped targets.
+ * Targets new to ringba_targets start with the campaign registry's category when it lists them,
+ * otherwise unmapped and disabled; each new unmapped target produces a warning.
+ */
+export const discoverRingbaTargets = async (
+  accountId: string,
+  apiToken: string,
+  db: NeonDbOps
+): Promise<RingbaTargetDiscoverySummary> => {
+  const listResult = await listRingbaTargets(accountId, apiToken)();
+  if (listResult._tag === 'Left') {
+    throw listResult.left;
+  }
+  const targets = listResult.right;
+
+  const { discovered } = await db.upsertRingbaTargets(
+    targets.map((t) => ({
+      id: t.id,
+      name: t.name,
+      ringbaEnabled: t.enabled,
+      initialCategory: getCategoryForTarget(t.id),
+    }))
+  );
+
+  const rows = await loadTargetMappings(db);
+  const listedIds = new Set(targets.map((t) => t.id));
+  const unmapped = rows
+    .filter((r) => listedIds.has(r.target_id) && r.ringba_enabled && !r.category)
+    .map((r) => ({ id: r.target_id, name: r.target_name }));
+
+  const discoveredSet = new Set(discovered);
+  const warnings = unmapped
+    .filter((t) => discoveredSet.has(t.id))
+    .map((t) => `New Ringba target without a category mapping: ${t.name} (${t.id}); its calls are not synced`);
+  warnings.forEach((w) => console.warn(`[WARN] ${w}`));
+
+  return { total: targets.length, discovered, unmapped, warnings };
+};
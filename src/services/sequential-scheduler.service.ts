@@ -12,6 +12,7 @@ import type {
 import { DEFAULT_SCHEDULER_CONFIG } from '../config/scheduler-config.js';
 import type { DateRange, Category } from '../types/index.js';
 import { getCurrentDayRangeWithTimezone } from '../utils/date-utils.js';
+import { getEnabledCampaigns, isKnownCategory } from '../config/campaign-registry.js';
 
 /** Service execution result */
 interface ServiceExecutionResult {
@@ -173,7 +174,7 @@ export class SequentialScheduler {
       // Execute based on service type
       switch (service.type) {
         case 'elocal-fetch':
-          result = await this.executeElocalFetch(dateRange, service.category || null);
+          result = await this.executeElocalFetch(dateRange, service.category || null, service);
           break;
 
         case 'ringba-original-sync':
@@ -223,7 +224,11 @@ export class SequentialScheduler {
   /**
    * Execute eLocal fetch service
    */
-  private async executeElocalFetch(dateRange: DateRange, category: Category | null): Promise<any> {
+  private async executeElocalFetch(
+    dateRange: DateRange,
+    category: Category | null,
+    service: Pick<ServiceConfig, 'dryRun' | 'diffOutputFile'> = {}
+  ): Promise<any> {
     // Dynamic import to avoid circular dependencies
     const module = await import('./fetch-elocal-calls.service.js');
 
@@ -235,10 +240,30 @@ export class SequentialScheduler {
 
     // If 0-1 days: current, otherwise: historical
     const serviceType = daysDiff <= 1 ? 'current' : 'historical';
-    const actualCategory: Category = category || 'STATIC';
+
+    // Dry-run services get their own config; the diff file is suffixed per category so runs don't overwrite it
+    const configFor = (cat: Category) =>
+      service.dryRun
+        ? {
+            ...this.appConfig,
+            dryRun: true,
+            diffOutputFile: service.diffOutputFile?.replace(/(\.[^./]+)?$/, `.${cat.toLowerCase()}$1`),
+          }
+        : this.appConfig;
 
     // The function is curried: config => dateRange => serviceType => category => async
-    return await module.scrapeElocalDataWithDateRange(this.appConfig)(dateRange)(serviceType)(actualCategory)();
+    if (category) {
+      return await module.scrapeElocalDataWithDateRange(configFor(category))(dateRange)(serviceType)(category)();
+    }
+
+    // No category: fetch every enabled campaign in the registry, one after another
+    const results = [];
+    for (const campaign of getEnabledCampaigns()) {
+      results.push(
+        await module.scrapeElocalDataWithDateRange(configFor(campaign.category))(dateRange)(serviceType)(campaign.category)()
+      );
+    }
+    return results;
   }
 
   /**
@@ -257,7 +282,13 @@ export class SequentialScheduler {
   private async executeRingbaCostSync(dateRange: DateRange, category: Category | null): Promise<any> {
     // Dynamic import to avoid circular dependencies
     const { syncCostToRingba } = await import('./ringba-cost-sync.service.js');
-    return await syncCostToRingba(this.appConfig, dateRange, category);
+    const summary = await syncCostToRingba(this.appConfig, dateRange, category);
+    // A run blocked by the guardrails pushed nothing; report it as a failed service
+    if (summary.status === 'blocked') {
+      const reasons = (summary.guardrailViolations ?? []).map(v => v.message).join('; ');
+      throw new Error(`Cost sync blocked by guardrails: ${reasons}`);
+    }
+    return summary;
   }
 
   /**
@@ -412,6 +443,20 @@ export class SequentialScheduler {
     }
 
     console.log('[INFO] All required environment variables are configured');
+
+    // Every service category must exist in the campaign registry
+    const unknownCategories = this.config.schedules
+      .flatMap(s => s.services)
+      .filter(s => s.category && !isKnownCategory(s.category))
+      .map(s => `${s.name} (${s.category})`);
+
+    if (unknownCategories.length > 0) {
+      console.error('[ERROR] Services reference categories missing from the campaign registry:');
+      unknownCategories.forEach(name => console.error(`  - ${name}`));
+      throw new Error('Unknown service categories');
+    }
+
+    console.log(`[INFO] Campaigns: ${getEnabledCampaigns().map(c => c.category).join(', ')}`);
     console.log('');
   }
 
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+/**
+ * List how eLocal calls in a date range were linked to Ringba calls (call_match_links), weakest
+ * match first, to review low-confidence links before pushing payouts.
+ *
+ * Higher score = weaker match (roughly minutes between call starts, adjusted for duration/payout).
+ *
+ * Usage:
+ *   npm run audit:matches -- <startDate> <endDate> [category] [--service=cost_sync|original_sync]
+ *                            [--min-score=N] [--min-time-diff=MINUTES] [--limit=N]
+ *   npm run audit:matches -- 2026-03-01 2026-03-07 STATIC --min-score=60
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonDbOps } from '../database/neon-operations.js';
+import { getCampaignRegistry, isKnownCategory } from '../config/campaign-registry.js';
+import { MATCHER_VERSION } from '../utils/call-matching.js';
+import type { MatchLinkInfo } from '../types/index.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+const numberFlag = (args: string[], name: string): number | null => {
+  const raw = args.find((a) => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+  if (raw === undefined) return null;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    console.error(`Invalid --${name}: ${raw}`);
+    process.exit(1);
+  }
+  return value;
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional = args.filter((a) => !a.startsWith('--'));
+  const [startDate, endDate, categoryArg] = positional;
+  const service = args.find((a) => a.startsWith('--service='))?.slice('--service='.length) ?? null;
+  const minScore = numberFlag(args, 'min-score');
+  const minTimeDiffMinutes = numberFlag(args, 'min-time-diff');
+  const limit = numberFlag(args, 'limit') ?? 50;
+
+  if (!startDate || !endDate || !/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    console.error(
+      'Usage: npm run audit:matches -- <YYYY-MM-DD> <YYYY-MM-DD> [category] [--service=cost_sync|original_sync] [--min-score=N] [--min-time-diff=MINUTES] [--limit=N]'
+    );
+    process.exit(1);
+  }
+  if (service && service !== 'cost_sync' && service !== 'original_sync') {
+    console.error(`Invalid --service: ${service}. Must be cost_sync or original_sync`);
+    process.exit(1);
+  }
+
+  const category = categoryArg?.toUpperCase() ?? null;
+  if (category && !isKnownCategory(category)) {
+    console.error(`Invalid category: ${category}. Must be one of: ${getCampaignRegistry().map((c) => c.category).join(', ')}`);
+    process.exit(1);
+  }
+
+  console.log('\n===========================================');
+  console.log('Call Match Link Audit');
+  console.log('===========================================\n');
+  console.log('Date range:', `${startDate} to ${endDate}`);
+  console.log('Category:', category ?? 'all');
+  console.log('Service:', service ?? 'all');
+  console.log('Min score:', minScore ?? '-');
+  console.log('Min time diff (min):', minTimeDiffMinutes ?? '-');
+  console.log('Current matcher version:', MATCHER_VERSION);
+  console.log('');
+
+  const db = createNeonDbOps();
+  const links = await db.getMatchLinks({
+    startDate,
+    endDate,
+    category,
+    service: service as MatchLinkInfo['service'] | null,
+    minScore,
+    minTimeDiffMinutes,
+  });
+
+  const counts = new Map<string, number>();
+  for (const link of links) {
+    const key = `${link.service} ${link.matcherVersion} ${link.assignment}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  console.log(`Links: ${links.length}`);
+  for (const [key, count] of counts) {
+    console.log(`  ${key}: ${count}`);
+  }
+  const outdated = links.filter((l) => l.matcherVersion !== MATCHER_VERSION).length;
+  if (outdated > 0) {
+    console.log(`  Made by an older matcher version: ${outdated}`);
+  }
+  console.log('');
+
+  for (const link of links.slice(0, limit)) {
+    const duration = link.durationDiffSeconds === null ? 'n/a' : `${link.durationDiffSeconds}s`;
+    const payout = link.payoutDiff === null ? 'n/a' : `$${link.payoutDiff.toFixed(2)}`;
+    console.log(
+      `  #${link.callId} ${link.category ?? '-'} ${link.callerId ?? '-'} @ ${link.callTimestamp ?? '-'} → ${link.ringbaId}`
+    );
+    console.log(
+      `      score ${link.score.toFixed(2)}, Δtime ${link.timeDiffMinutes.toFixed(1)} min, Δduration ${duration}, ` +
+        `Δpayout ${payout} (${link.service}, ${link.matcherVersion}/${link.assignment}, run ${link.runId ?? '-'})`
+    );
+  }
+  if (links.length > limit) {
+    console.log(`  ... and ${links.length - limit} more (use --limit=N)`);
+  }
+  console.log('\n✓ Done.\n');
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('\n✗ Failed:', (err as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+/**
+ * Show the payout timeline for one call from call_payout_history.
+ *
+ * Lists every money-column change (eLocal fetch, original sync, cost sync) for a ringba_call_data
+ * row, oldest first, with the session/run that made it — e.g. when eLocal moved a call from $25 to $0.
+ *
+ * Usage:
+ *   npx tsx src/test/call-payout-history.ts <call-id>
+ *   npm run history:call -- <call-id>
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonDbOps } from '../database/neon-operations.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+const money = (value: string | number | null | undefined): string =>
+  value === null || value === undefined ? '—' : `$${Number(value).toFixed(2)}`;
+
+async function main() {
+  const callId = parseInt(process.argv[2] ?? '', 10);
+  if (!Number.isFinite(callId)) {
+    console.error('Usage: npx tsx src/test/call-payout-history.ts <call-id>');
+    process.exit(1);
+  }
+
+  const db = createNeonDbOps();
+  const call = await db.getCallById(callId);
+  if (!call) {
+    console.error(`[ERROR] Call ${callId} not found in ringba_call_data`);
+    process.exit(1);
+  }
+
+  console.log('\n===========================================');
+  console.log(`Payout History — call ${callId}`);
+  console.log('===========================================\n');
+  console.log('Caller:', call.caller_id);
+  console.log('Call time (UTC):', call.call_timestamp);
+  console.log('Category:', call.category);
+  console.log('Ringba ID:', call.ringba_id ?? '—');
+  console.log('Current ringba_revenue:', money(call.ringba_revenue));
+  console.log('Current ringba_original_payout:', money(call.ringba_original_payout));
+  console.log('Current adjustment_amount:', money(call.adjustment_amount));
+  console.log('');
+
+  const history = await db.getCallPayoutHistory(callId);
+  if (history.length === 0) {
+    console.log('[INFO] No recorded payout changes for this call.');
+  }
+
+  for (const entry of history) {
+    console.log(
+      `${entry.changed_at}  ${entry.source.padEnd(13)} ${`${entry.table_name}.${entry.column_name}`.padEnd(40)} ` +
+        `${money(entry.old_value)} → ${money(entry.new_value)}  (${entry.session_id ?? 'no session'})`
+    );
+  }
+
+  console.log('\n✓ Done.\n');
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('\n✗ Failed:', (err as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+/**
+ * Discover Ringba targets and manage their category mappings in ringba_targets.
+ *
+ * Without options, pulls the target list from the Ringba API, stores new targets and prints every
+ * known target with its mapping. Calls of a target are synced only once it is mapped to a category
+ * and enabled.
+ *
+ * Usage:
+ *   npm run targets:discover
+ *   npm run targets:discover -- --map <target-id> <CATEGORY>   (maps and enables the target)
+ *   npm run targets:discover -- --enable <target-id>
+ *   npm run targets:discover -- --disable <target-id>
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonDbOps } from '../database/neon-operations.js';
+import { isKnownCategory } from '../config/campaign-registry.js';
+import { discoverRingbaTargets } from '../services/ringba-target-discovery.service.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+const usage = () => {
+  console.error('Usage: npm run targets:discover -- [--map <target-id> <CATEGORY> | --enable <target-id> | --disable <target-id>]');
+  process.exit(1);
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+  const db = createNeonDbOps();
+
+  console.log('\n===========================================');
+  console.log('Ringba Target Discovery');
+  console.log('===========================================\n');
+
+  const option = args[0];
+  if (option === '--map' || option === '--enable' || option === '--disable') {
+    const targetId = args[1];
+    if (!targetId) usage();
+    let update: { category?: string; enabled?: boolean };
+    if (option === '--map') {
+      const category = (args[2] || '').toUpperCase();
+      if (!isKnownCategory(category)) {
+        console.error(`[ERROR] Unknown category: ${args[2] ?? ''}`);
+        process.exit(1);
+      }
+      update = { category, enabled: true };
+    } else {
+      update = { enabled: option === '--enable' };
+    }
+    const { updated } = await db.updateRingbaTarget(targetId, update);
+    if (updated === 0) {
+      console.error(`[ERROR] Target ${targetId} is not in ringba_targets; run discovery first`);
+      process.exit(1);
+    }
+    console.log(`✓ Updated ${targetId}:`, JSON.stringify(update));
+  } else if (option) {
+    usage();
+  } else {
+    const accountId = process.env.RINGBA_ACCOUNT_ID;
+    const apiToken = process.env.RINGBA_API_TOKEN;
+    if (!accountId || !apiToken) {
+      console.error('[ERROR] RINGBA_ACCOUNT_ID and RINGBA_API_TOKEN are required');
+      process.exit(1);
+    }
+    const summary = await discoverRingbaTargets(accountId, apiToken, db);
+    console.log(`Ringba targets: ${summary.total}`);
+    console.log(`New: ${summary.discovered.length}`);
+    console.log(`Unmapped: ${summary.unmapped.length}`);
+  }
+
+  const rows = await db.getRingbaTargets();
+  console.log('\nTarget ID                              Category      Enabled  Ringba  First seen   Name');
+  for (const row of rows) {
+    console.log(
+      `${row.target_id.padEnd(38)} ${(row.category ?? '-').padEnd(13)} ${String(row.enabled).padEnd(8)} ` +
+        `${String(row.ringba_enabled).padEnd(7)} ${new Date(row.first_seen_at).toISOString().slice(0, 10)}   ${row.target_name}`
+    );
+  }
+  console.log('\n✓ Done.\n');
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('\n✗ Failed:', (err as Error).message);
+  process.exit(1);
+});
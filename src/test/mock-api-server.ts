@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+/**
+ * Local stub of the eLocal and Ringba APIs for offline end-to-end runs.
+ *
+ * Serves fixture calls for eLocal calls.json and Ringba calllogs/targets, and records every
+ * calls/payments/override POST (in memory and appended to MOCK_OVERRIDE_LOG) so a run can be
+ * checked afterwards. Overrides are applied to the served call log, as Ringba does, so the cost
+ * sync's verify-after-write step sees them. Point the services at it with:
+ *
+ *   ELOCAL_BASE_URL=http://localhost:4010/elocal
+ *   RINGBA_BASE_URL=http://localhost:4010/ringba
+ *
+ * Endpoints:
+ *   GET    /elocal/<campaign-uuid>/calls.json?start_date=&end_date=
+ *   POST   /ringba/<account-id>/calllogs
+ *   GET    /ringba/<account-id>/targets
+ *   POST   /ringba/<account-id>/calls/payments/override
+ *   GET    /__mock/overrides      recorded override requests
+ *   DELETE /__mock/overrides      clear them
+ *
+ * Fixtures (MOCK_FIXTURES_DIR, default src/test/fixtures/mock-api):
+ *   elocal-calls.json     { "<campaign-uuid>": [raw eLocal call, ...] } (callStartTime in EST)
+ *   ringba-calllogs.json  [call-log record, ...] (callDt as MM/DD/YYYY hh:mm:ss AM/PM UTC)
+ *   ringba-targets.json   [{ id, name, enabled }, ...]
+ *
+ * Usage:
+ *   npm run mock:apis
+ *   MOCK_API_PORT=4010 MOCK_OVERRIDE_LOG=./mock-overrides.jsonl npx tsx src/test/mock-api-server.ts
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { readFileSync, existsSync, appendFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+const PORT = Number(process.env.MOCK_API_PORT) || 4010;
+const FIXTURES_DIR = resolve(process.env.MOCK_FIXTURES_DIR || join(process.cwd(), 'src', 'test', 'fixtures', 'mock-api'));
+const OVERRIDE_LOG = process.env.MOCK_OVERRIDE_LOG || null;
+
+const loadFixture = <T>(file: string, fallback: T): T => {
+  const path = join(FIXTURES_DIR, file);
+  if (!existsSync(path)) {
+    console.warn(`[mock] Fixture ${path} not found; serving empty data`);
+    return fallback;
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as T;
+};
+
+const elocalCalls = loadFixture<Record<string, Array<Record<string, unknown>>>>('elocal-calls.json', {});
+const ringbaCallLogs = loadFixture<Array<Record<string, unknown>>>('ringba-calllogs.json', []);
+const ringbaTargets = loadFixture<Array<Record<string, unknown>>>('ringba-targets.json', []);
+const overrides: Array<{ receivedAt: string; accountId: string; body: unknown }> = [];
+
+/** MM/DD/YYYY hh:mm:ss AM/PM (UTC), as Ringba returns with formatDateTime */
+const parseRingbaDate = (value: unknown): number => {
+  const m = String(value ?? '').match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2}):(\d{2})\s+(AM|PM)$/i);
+  if (!m) return Date.parse(String(value));
+  let hours = parseInt(m[4], 10) % 12;
+  if (m[7].toUpperCase() === 'PM') hours += 12;
+  return Date.UTC(+m[3], +m[1] - 1, +m[2], hours, +m[5], +m[6]);
+};
+
+const readBody = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf-8');
+  return text ? JSON.parse(text) : {};
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/** calls.json: calls whose EST date is in [start_date, end_date) (end_date is exclusive, like eLocal) */
+const handleElocalCalls = (uuid: string, url: URL, res: ServerResponse) => {
+  const start = url.searchParams.get('start_date') ?? '0000-00-00';
+  const end = url.searchParams.get('end_date') ?? '9999-99-99';
+  const calls = (elocalCalls[uuid] ?? []).filter((c) => {
+    const day = String(c.callStartTime ?? c.call_date ?? c.date ?? '').slice(0, 10);
+    return day >= start && day < end;
+  });
+  send(res, 200, { calls });
+};
+
+/** calllogs: report window, EQUALS filters (any condition per group), offset/size paging, requested columns only */
+const handleCallLogs = (body: any, res: ServerResponse) => {
+  const from = Date.parse(body.reportStart ?? '1970-01-01T00:00:00Z');
+  const to = Date.parse(body.reportEnd ?? '2999-01-01T00:00:00Z');
+  const groups: Array<{ anyConditionToMatch?: Array<{ column: string; value: unknown; isNegativeMatch?: boolean }> }> =
+    body.filters ?? [];
+  const matches = ringbaCallLogs.filter((record) => {
+    const at = parseRingbaDate(record.callDt);
+    if (!(at >= from && at <= to)) return false;
+    return groups.every((g) =>
+      (g.anyConditionToMatch ?? []).some((c) => (String(record[c.column]) === String(c.value)) !== !!c.isNegativeMatch)
+    );
+  });
+  matches.sort((a, b) => parseRingbaDate(b.callDt) - parseRingbaDate(a.callDt));
+
+  const offset = Number(body.offset) || 0;
+  const size = Number(body.size) || 100;
+  const columns: string[] = (body.valueColumns ?? []).map((c: { column: string }) => c.column);
+  const records = matches
+    .slice(offset, offset + size)
+    .map((r) => (columns.length ? Object.fromEntries(columns.map((c) => [c, r[c] ?? null])) : r));
+  send(res, 200, { report: { records, totalCount: matches.length } });
+};
+
+const handleOverride = (accountId: string, body: any, res: ServerResponse) => {
+  const entry = { receivedAt: new Date().toISOString(), accountId, body };
+  overrides.push(entry);
+  const record = ringbaCallLogs.find((r) => r.inboundCallId === body?.inboundCallId);
+  if (record) {
+    if (body.newConversionAmount !== undefined) record.conversionAmount = body.newConversionAmount;
+    if (body.newPayoutAmount !== undefined) record.payoutAmount = body.newPayoutAmount;
+  }
+  if (OVERRIDE_LOG) appendFileSync(OVERRIDE_LOG, JSON.stringify(entry) + '\n', 'utf-8');
+  console.log(
+    `[mock] Override ${body?.inboundCallId}: conversion ${body?.newConversionAmount ?? '-'}, payout ${body?.newPayoutAmount ?? '-'}`
+  );
+  send(res, 200, { isSuccessful: true, inboundCallId: body?.inboundCallId ?? null });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const parts = url.pathname.split('/').filter(Boolean);
+  try {
+    if (req.method === 'GET' && parts[0] === 'elocal' && parts[2] === 'calls.json') {
+      return handleElocalCalls(parts[1], url, res);
+    }
+    if (parts[0] === 'ringba' && parts.length >= 3) {
+      const accountId = parts[1];
+      const rest = parts.slice(2).join('/');
+      if (req.method === 'POST' && rest === 'calllogs') return handleCallLogs(await readBody(req), res);
+      if (req.method === 'GET' && rest === 'targets') return send(res, 200, { targets: ringbaTargets });
+      if (req.method === 'POST' && rest === 'calls/payments/override') {
+        return handleOverride(accountId, await readBody(req), res);
+      }
+    }
+    if (url.pathname === '/__mock/overrides') {
+      if (req.method === 'DELETE') overrides.length = 0;
+      return send(res, 200, overrides);
+    }
+    send(res, 404, { error: `No mock route for ${req.method} ${url.pathname}` });
+  } catch (error) {
+    send(res, 500, { error: (error as Error).message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log('\n===========================================');
+  console.log('Mock eLocal / Ringba API');
+  console.log('===========================================\n');
+  console.log(`Fixtures: ${FIXTURES_DIR}`);
+  console.log(`eLocal calls: ${Object.values(elocalCalls).reduce((n, calls) => n + calls.length, 0)}`);
+  console.log(`Ringba call logs: ${ringbaCallLogs.length}, targets: ${ringbaTargets.length}`);
+  if (OVERRIDE_LOG) console.log(`Override log: ${OVERRIDE_LOG}`);
+  console.log('');
+  console.log(`ELOCAL_BASE_URL=http://localhost:${PORT}/elocal`);
+  console.log(`RINGBA_BASE_URL=http://localhost:${PORT}/ringba`);
+  console.log('');
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+/**
+ * Review and push queued Ringba payment overrides (pending_payment_overrides).
+ *
+ * With RINGBA_OVERRIDE_APPROVAL=true the cost sync queues its overrides instead of pushing them.
+ * An operator lists them, approves or rejects them, and pushes the approved ones. Before listing,
+ * approving and pushing, overrides whose eLocal payout changed since they were queued are marked
+ * stale; stale overrides are never pushed (the next cost sync queues a fresh one).
+ *
+ * Usage:
+ *   npm run overrides -- list [filters]                 (default filter: --status=pending)
+ *   npm run overrides -- approve <id> [<id> ...]
+ *   npm run overrides -- approve --all [filters]        (every pending override matching the filters)
+ *   npm run overrides -- reject <id> [<id> ...] [--note="reason"]
+ *   npm run overrides -- reject --all [filters] [--note="reason"]
+ *   npm run overrides:push [filters]
+ *
+ * Filters: --status=<status> --category=<CATEGORY> --date=<YYYY-MM-DD | start:end> --run=<run id>
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonDbOps } from '../database/neon-operations.js';
+import { pushApprovedPaymentOverrides } from '../services/ringba-cost-sync.service.js';
+import type { PendingOverrideFilter, PendingOverrideStatus } from '../types/ringba-cost-sync.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+const usage = () => {
+  console.error('Usage: npm run overrides -- list|approve|reject|push [<id> ...|--all] [--status=] [--category=] [--date=] [--run=] [--note=]');
+  process.exit(1);
+};
+
+const option = (args: string[], name: string): string | undefined =>
+  args.find((a) => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+const parseFilter = (args: string[]): PendingOverrideFilter => {
+  const filter: PendingOverrideFilter = {};
+  const ids = args.filter((a) => /^\d+$/.test(a)).map(Number);
+  if (ids.length > 0) filter.ids = ids;
+  const status = option(args, 'status');
+  if (status) filter.status = status as PendingOverrideStatus;
+  const category = option(args, 'category');
+  if (category) filter.category = category.toUpperCase();
+  const date = option(args, 'date');
+  if (date) {
+    const [start, end] = date.split(':');
+    filter.startDate = start;
+    filter.endDate = end || start;
+  }
+  const runId = option(args, 'run');
+  if (runId) filter.runId = runId;
+  return filter;
+};
+
+const money = (value: number | string) => `$${Number(value).toFixed(2)}`;
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (!command) usage();
+  const filter = parseFilter(args);
+  const db = createNeonDbOps();
+
+  console.log('\n===========================================');
+  console.log('Ringba Payment Override Queue');
+  console.log('===========================================\n');
+
+  if (command === 'push') {
+    const summary = await pushApprovedPaymentOverrides(
+      {
+        ringbaAccountId: process.env.RINGBA_ACCOUNT_ID,
+        ringbaApiToken: process.env.RINGBA_API_TOKEN,
+        neonDatabaseUrl: process.env.NEON_DATABASE_URL,
+      },
+      filter
+    );
+    console.log(`\nApproved: ${summary.approved}`);
+    console.log(`Stale (not pushed): ${summary.stale}`);
+    console.log(`Pushed: ${summary.pushed}`);
+    console.log(`Already applied: ${summary.alreadyApplied}`);
+    console.log(`Failed: ${summary.failed}`);
+    console.log(`Run: ${summary.runId}`);
+    process.exit(summary.failed > 0 ? 1 : 0);
+  }
+
+  const stale = await db.markStalePaymentOverrides(filter);
+  if (stale.length > 0) {
+    console.log(`[INFO] ${stale.length} override(s) marked stale (eLocal payout changed since queued)\n`);
+  }
+
+  if (command === 'list') {
+    const rows = await db.getPaymentOverrides({ status: 'pending', ...filter });
+    for (const row of rows) {
+      console.log(
+        `#${row.id} [${row.status}] ${row.category ?? '-'} ${row.call_timestamp ? new Date(row.call_timestamp).toISOString() : '-'} ` +
+          `${row.ringba_inbound_call_id} (eLocal #${row.elocal_call_id})`
+      );
+      console.log(
+        `    payout ${money(row.current_payout)} → ${money(row.new_payout)}, ` +
+          `revenue ${money(row.current_revenue)} → ${money(row.new_revenue)}` +
+          (row.policy_rule ? ` [policy ${row.policy_rule}]` : '') +
+          (row.review_note ? `  — ${row.review_note}` : '')
+      );
+    }
+    console.log(`\n${rows.length} override(s)`);
+  } else if (command === 'approve' || command === 'reject') {
+    if (!filter.ids && !args.includes('--all')) {
+      console.error('[ERROR] Give override ids or --all with filters');
+      process.exit(1);
+    }
+    const changed = await db.reviewPaymentOverrides(
+      filter,
+      command === 'approve' ? 'approved' : 'rejected',
+      option(args, 'note') ?? null
+    );
+    console.log(`✓ ${command === 'approve' ? 'Approved' : 'Rejected'} ${changed.length} override(s)${changed.length ? `: ${changed.join(', ')}` : ''}`);
+    if (filter.ids) {
+      const skipped = filter.ids.filter((id) => !changed.includes(id));
+      if (skipped.length > 0) console.log(`  Not pending (skipped): ${skipped.join(', ')}`);
+    }
+  } else {
+    usage();
+  }
+
+  console.log('\n✓ Done.\n');
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('\n✗ Failed:', (err as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+/**
+ * Replay an archived eLocal fetch session without calling the eLocal API.
+ *
+ * Every fetched chunk of a session is archived in elocal_raw_responses. This script loads those
+ * responses and runs them back through the same validation, processCampaignCalls and
+ * insertCallsBatch path as a live fetch, so a processing fix can be applied to (or a bug reproduced
+ * from) exactly the data eLocal returned at the time.
+ *
+ * Usage:
+ *   npx tsx src/test/replay-elocal-session.ts <session-id> [--dry-run]
+ *   npm run replay:session -- <session-id> [--dry-run]
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonDbOps } from '../database/neon-operations.js';
+import { extractCalls } from '../http/elocal-client.js';
+import { saveRawCalls } from '../services/fetch-elocal-calls.service.js';
+import { getCampaign } from '../config/campaign-registry.js';
+import { partitionRawApiCalls } from '../utils/elocal-call-validator.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const sessionId = args.find((a) => !a.startsWith('--'));
+
+  if (!sessionId) {
+    console.error('Usage: npx tsx src/test/replay-elocal-session.ts <session-id> [--dry-run]');
+    process.exit(1);
+  }
+
+  const db = createNeonDbOps();
+  const replaySessionId = `replay_${sessionId}`;
+
+  console.log('\n===========================================');
+  console.log('Replay Archived eLocal Session');
+  console.log('===========================================\n');
+  console.log('Session:', sessionId);
+  console.log('Replay session:', replaySessionId);
+  console.log('Dry run:', dryRun ? 'yes' : 'no');
+  console.log('');
+
+  const archives = await db.getRawResponses(sessionId);
+  if (archives.length === 0) {
+    console.error(`[ERROR] No archived responses found for session ${sessionId}`);
+    process.exit(1);
+  }
+  console.log(`[INFO] ${archives.length} archived chunk(s) found`);
+
+  let totalCalls = 0;
+  let totalInserted = 0;
+  let totalUpdated = 0;
+  let totalQuarantined = 0;
+
+  for (const archive of archives) {
+    const rawCalls = archive.pages.flatMap((page) => extractCalls(page));
+    console.log(
+      `\n[INFO] Chunk ${archive.chunk_start} → ${archive.chunk_end} (${archive.category}): ` +
+        `${archive.pages.length} page(s), ${rawCalls.length} records`
+    );
+
+    if (dryRun) {
+      const { calls, rejected } = partitionRawApiCalls(rawCalls, archive.category);
+      console.log(`[DRY RUN] ${calls.length} valid, ${rejected.length} would be quarantined`);
+      totalCalls += calls.length;
+      totalQuarantined += rejected.length;
+      continue;
+    }
+
+    const campaign = getCampaign(archive.category);
+    const result = await saveRawCalls(db, rawCalls, {
+      sessionId: replaySessionId,
+      campaignUuid: archive.campaign_uuid,
+      category: archive.category,
+      includeAdjustments: campaign.includeAdjustments,
+    });
+    totalCalls += result.processedCalls.length;
+    totalInserted += result.callsInserted;
+    totalUpdated += result.callsUpdated;
+    totalQuarantined += result.quarantined;
+  }
+
+  console.log('\n===========================================');
+  console.log('Replay Summary');
+  console.log('===========================================');
+  console.log(`Calls processed: ${totalCalls}`);
+  console.log(`Inserted: ${totalInserted}`);
+  console.log(`Updated: ${totalUpdated}`);
+  console.log(`Quarantined: ${totalQuarantined}`);
+  console.log('\n✓ Done.\n');
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('\n✗ Failed:', (err as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+/**
+ * Re-process quarantined eLocal records after a mapping/validation fix.
+ *
+ * Each quarantined row is validated again with the current RAW_CALL_SCHEMA. Rows that now pass
+ * are processed and upserted like a normal fetch and marked 'reprocessed'; rows that still fail
+ * stay quarantined with their reason refreshed.
+ *
+ * Usage:
+ *   npx tsx src/test/reprocess-quarantined.ts [session-id] [--dry-run]
+ *   npm run reprocess:quarantine -- [session-id] [--dry-run]
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { createNeonDbOps } from '../database/neon-operations.js';
+import { validateRawApiCall } from '../utils/elocal-call-validator.js';
+import { processCampaignCalls } from '../utils/helpers.js';
+import type { Category, ElocalCall } from '../types/index.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const sessionId = args.find((a) => !a.startsWith('--')) ?? null;
+
+  const db = createNeonDbOps();
+
+  console.log('\n===========================================');
+  console.log('Re-process Quarantined eLocal Records');
+  console.log('===========================================\n');
+  console.log('Session:', sessionId ?? 'all');
+  console.log('Dry run:', dryRun ? 'yes' : 'no');
+  console.log('');
+
+  const records = await db.getQuarantinedRecords(sessionId);
+  console.log(`[INFO] ${records.length} quarantined records pending`);
+
+  const recovered: Array<{ id: number; call: ElocalCall }> = [];
+  let stillInvalid = 0;
+
+  for (const record of records) {
+    const result = validateRawApiCall(record.raw_record, record.category as Category);
+    if (result.valid) {
+      recovered.push({ id: record.id, call: result.call });
+      continue;
+    }
+
+    stillInvalid++;
+    const reason = result.reasons.join('; ');
+    console.log(`[SKIP] #${record.id}: ${reason}`);
+    if (!dryRun) {
+      await db.updateQuarantinedRecord(record.id, { status: 'quarantined', reason });
+    }
+  }
+
+  console.log(`[INFO] ${recovered.length} records now pass validation, ${stillInvalid} still invalid`);
+
+  if (!dryRun && recovered.length > 0) {
+    const calls = processCampaignCalls(recovered.map((r) => r.call));
+    const result = await db.insertCallsBatch(calls);
+    console.log(`[SUCCESS] Saved ${result.inserted} new calls, updated ${result.updated} existing`);
+
+    for (const r of recovered) {
+      await db.updateQuarantinedRecord(r.id, { status: 'reprocessed' });
+    }
+  }
+
+  console.log('\n✓ Done.\n');
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('\n✗ Failed:', (err as Error).message);
+  process.exit(1);
+});
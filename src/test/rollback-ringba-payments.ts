@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+/**
+ * Roll back Ringba payment overrides for a date range.
+ *
+ * Restores each overridden call's payout and revenue in Ringba to what they were before the
+ * override: the old amounts from ringba_override_ledger, or, for overrides pushed before the ledger
+ * existed, call_payout_history / ringba_call_data.ringba_original_payout / ringba_original_sync.
+ * With --run only that run's overrides are undone. The rollback is itself recorded in the ledger
+ * (run id rollback_...) and call_payout_history.
+ *
+ * Usage:
+ *   npm run rollback:ringba -- <startDate> <endDate> [category] [--run=<run id>] [--dry-run]
+ *   npm run rollback:ringba -- 2026-02-01 2026-02-05 STATIC --dry-run
+ *   npm run rollback:ringba -- 2026-02-01 2026-02-05 --run=cost_sync_<id>
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { rollbackRingbaPayments } from '../services/ringba-cost-sync.service.js';
+import { getCampaignRegistry, isKnownCategory } from '../config/campaign-registry.js';
+
+dotenv.config({ path: join(process.cwd(), '.env') });
+dotenv.config({ path: join(process.cwd(), '.env.neon') });
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional = args.filter((a) => !a.startsWith('--'));
+  const dryRun = args.includes('--dry-run');
+  const runId = args.find((a) => a.startsWith('--run='))?.slice('--run='.length) || null;
+  const [startDate, endDate, categoryArg] = positional;
+
+  if (!startDate || !endDate || !/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    console.error('Usage: npm run rollback:ringba -- <YYYY-MM-DD> <YYYY-MM-DD> [category] [--run=<run id>] [--dry-run]');
+    process.exit(1);
+  }
+
+  const category = categoryArg?.toUpperCase() ?? null;
+  if (category && !isKnownCategory(category)) {
+    console.error(`Invalid category: ${category}. Must be one of: ${getCampaignRegistry().map((c) => c.category).join(', ')}`);
+    process.exit(1);
+  }
+
+  console.log('\n===========================================');
+  console.log('Ringba Payment Rollback');
+  console.log('===========================================\n');
+  console.log('Date range:', `${startDate} to ${endDate}`);
+  console.log('Category:', category ?? 'all');
+  console.log('Run:', runId ?? 'any');
+  console.log('Dry run:', dryRun ? 'yes' : 'no');
+  console.log('');
+
+  const summary = await rollbackRingbaPayments(
+    {
+      ringbaAccountId: process.env.RINGBA_ACCOUNT_ID,
+      ringbaApiToken: process.env.RINGBA_API_TOKEN,
+      neonDatabaseUrl: process.env.NEON_DATABASE_URL,
+    },
+    { startDate, endDate, category, runId, dryRun }
+  );
+
+  console.log('\n===========================================');
+  console.log('Rollback Summary');
+  console.log('===========================================');
+  console.log(`Overridden calls: ${summary.candidates}`);
+  console.log(`Already at original amounts: ${summary.unchanged}`);
+  console.log(`Original payout or revenue unknown (skipped): ${summary.skipped}`);
+  if (summary.dryRun) {
+    console.log(`Would restore: ${summary.rollbacks.length}`);
+  } else {
+    console.log(`Restored: ${summary.restored}`);
+    console.log(`Failed: ${summary.failed}`);
+    console.log(`Run: ${summary.runId}`);
+  }
+  console.log('\n✓ Done.\n');
+  process.exit(summary.failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error('\n✗ Failed:', (err as Error).message);
+  process.exit(1);
+});
@@ -3,19 +3,23 @@
  * Run eLocal scrapper for a custom date range.
  *
  * Usage:
- *   npx tsx src/test/run-for-date-range.ts <start-date> <end-date> [category]
+ *   npx tsx src/test/run-for-date-range.ts <start-date> <end-date> [category] [--dry-run] [--diff-file=<path>]
  *
  * Date format: YYYY-MM-DD (e.g. 2026-02-02 2026-02-07)
- * Category: STATIC (default) | API
+ * Category: STATIC (default) | API | any category in the campaign registry
+ * --dry-run: fetch and compare with the database without writing; prints what would change
+ * --diff-file: with --dry-run, write the diff to <path> (.csv for CSV, otherwise JSON)
  *
  * Example:
  *   npx tsx src/test/run-for-date-range.ts 2026-02-02 2026-02-07 STATIC
+ *   npx tsx src/test/run-for-date-range.ts 2026-01-01 2026-01-31 STATIC --dry-run --diff-file=jan-diff.csv
  */
 import dotenv from 'dotenv';
 import { join } from 'path';
 import { scrapeElocalDataWithDateRange } from '../services/fetch-elocal-calls.service.js';
 import { getCustomDateRange, getDateRangeDescription } from '../utils/date-utils.js';
-import type { Config } from '../types/index.js';
+import { getCampaignRegistry, isKnownCategory } from '../config/campaign-registry.js';
+import type { Config, Category } from '../types/index.js';
 
 dotenv.config({ path: join(process.cwd(), '.env') });
 dotenv.config({ path: join(process.cwd(), '.env.neon') });
@@ -31,12 +35,19 @@ function parseDate(s: string): Date | null {
 }
 
 async function main() {
-  const startStr = process.argv[2];
-  const endStr = process.argv[3];
-  const category = (process.argv[4] || 'STATIC') as 'STATIC' | 'API';
+  const args = process.argv.slice(2);
+  const positional = args.filter((a) => !a.startsWith('--'));
+  const dryRun = args.includes('--dry-run');
+  const diffOutputFile = args.find((a) => a.startsWith('--diff-file='))?.slice('--diff-file='.length);
+
+  const startStr = positional[0];
+  const endStr = positional[1];
+  const category: Category = (positional[2] || 'STATIC').toUpperCase();
 
   if (!startStr || !endStr) {
-    console.error('Usage: npx tsx src/test/run-for-date-range.ts <start-date> <end-date> [category]');
+    console.error(
+      'Usage: npx tsx src/test/run-for-date-range.ts <start-date> <end-date> [category] [--dry-run] [--diff-file=<path>]'
+    );
     console.error('Example: npx tsx src/test/run-for-date-range.ts 2026-02-02 2026-02-07 STATIC');
     process.exit(1);
   }
@@ -51,11 +62,17 @@ async function main() {
     console.error('Start date must be <= end date.');
     process.exit(1);
   }
+  if (!isKnownCategory(category)) {
+    console.error(`Unknown category: ${category}. Registered: ${getCampaignRegistry().map((c) => c.category).join(', ')}`);
+    process.exit(1);
+  }
 
   const dateRange = getCustomDateRange(startDate, endDate);
   const config: Config = {
     elocalApiKey: process.env.ELOCAL_API_KEY,
     neonDatabaseUrl: process.env.NEON_DATABASE_URL,
+    dryRun,
+    diffOutputFile,
   };
 
   console.log('\n===========================================');
@@ -63,6 +80,7 @@ async function main() {
   console.log('===========================================\n');
   console.log('Date Range:', getDateRangeDescription(dateRange), `(${dateRange.startDateURL} to ${dateRange.endDateURL})`);
   console.log('Category:', category);
+  console.log('Dry run:', dryRun ? `yes${diffOutputFile ? ` (diff → ${diffOutputFile})` : ''}` : 'no');
   console.log('Neon DB:', config.neonDatabaseUrl ? '✓' : '✗');
   console.log('eLocal API Key:', config.elocalApiKey ? '✓' : '✗');
   console.log('\n');
@@ -77,8 +95,19 @@ async function main() {
     console.log('Total Calls:', result.summary.totalCalls);
     console.log('Total Payout: $' + result.summary.totalPayout.toFixed(2));
     console.log('Unique Callers:', result.summary.uniqueCallers);
-    console.log('Calls Inserted:', result.databaseResults.callsInserted);
-    console.log('Calls Updated:', result.databaseResults.callsUpdated);
+    if (result.dryRun) {
+      console.log('Would Insert:', result.dryRun.inserts);
+      console.log('Would Update:', result.dryRun.updates);
+      console.log('Unchanged:', result.dryRun.unchanged);
+      console.log('Records Failing Validation:', result.summary.quarantined);
+      if (result.dryRun.file) console.log('Diff File:', result.dryRun.file);
+    } else {
+      console.log('Calls Inserted:', result.databaseResults.callsInserted);
+      console.log('Calls Updated:', result.databaseResults.callsUpdated);
+      console.log('Adjustments Recorded:', result.databaseResults.adjustmentsInserted ?? 0);
+      console.log('Quarantined Records:', result.summary.quarantined);
+      console.log('Days Unchanged (writes skipped):', result.summary.unchangedDays);
+    }
     console.log('\n✓ Done.\n');
     process.exit(0);
   } catch (err) {
@@ -4,6 +4,7 @@
 import dotenv from 'dotenv';
 import { syncCostToRingba } from '../services/ringba-cost-sync.service.js';
 import type { RingbaCostSyncConfig, RingbaCostSyncSummary } from '../types/ringba-cost-sync.js';
+import { getCampaignRegistry, isKnownCategory } from '../config/campaign-registry.js';
 import type { DateRange, Category } from '../types/index.js';
 
 // Load environment variables
@@ -15,9 +16,24 @@ dotenv.config();
  * Example: npm run sync:cost -- 2026-02-03 2026-02-03
  * Example: npm run sync:cost -- 2026-02-01 2026-02-05 STATIC
  * Example: npm run sync:cost -- 2026-02-01 2026-02-05 API
+ * Example: npm run sync:cost -- 2026-02-01 2026-02-05 --queue   (queue overrides for approval)
+ * Example: npm run sync:cost -- 2026-02-01 2026-02-05 --resume  (resume the latest interrupted run)
+ * Example: npm run sync:cost -- 2026-02-01 2026-02-05 --resume=cost_sync_<id>
+ * Example: npm run sync:cost -- 2026-02-01 2026-02-05 --override-guardrails  (push a run the guardrails blocked)
  */
-const parseArgs = (): { startDate: string; endDate: string; category: Category | null } => {
-  const args = process.argv.slice(2);
+const parseArgs = (): {
+  startDate: string;
+  endDate: string;
+  category: Category | null;
+  queue: boolean;
+  resume: string | null;
+  overrideGuardrails: boolean;
+} => {
+  const args = process.argv.slice(2).filter((a) => !a.startsWith('--'));
+  const queue = process.argv.includes('--queue');
+  const overrideGuardrails = process.argv.includes('--override-guardrails');
+  const resumeArg = process.argv.find((a) => a === '--resume' || a.startsWith('--resume='));
+  const resume = resumeArg ? resumeArg.split('=')[1] || 'latest' : null;
 
   if (args.length < 2) {
     console.error('Usage: npm run sync:cost -- <startDate> <endDate> [category]');
@@ -33,8 +49,8 @@ const parseArgs = (): { startDate: string; endDate: string; category: Category |
   
   let category: Category | null = null;
   if (categoryArg) {
-    if (categoryArg !== 'STATIC' && categoryArg !== 'API') {
-      console.error(`Invalid category: ${categoryArg}. Must be STATIC or API`);
+    if (!isKnownCategory(categoryArg)) {
+      console.error(`Invalid category: ${categoryArg}. Must be one of: ${getCampaignRegistry().map((c) => c.category).join(', ')}`);
       process.exit(1);
     }
     category = categoryArg as Category;
@@ -48,7 +64,7 @@ const parseArgs = (): { startDate: string; endDate: string; category: Category |
     process.exit(1);
   }
 
-  return { startDate, endDate, category };
+  return { startDate, endDate, category, queue, resume, overrideGuardrails };
 };
 
 /**
@@ -78,13 +94,16 @@ const formatDateURL = (dateStr: string): string => {
  */
 const run = async (): Promise<void> => {
   try {
-    const { startDate, endDate, category } = parseArgs();
+    const { startDate, endDate, category, queue, resume, overrideGuardrails } = parseArgs();
 
     // Construct config
     const config: RingbaCostSyncConfig = {
       ringbaAccountId: process.env.RINGBA_ACCOUNT_ID,
       ringbaApiToken: process.env.RINGBA_API_TOKEN,
       neonDatabaseUrl: process.env.NEON_DATABASE_URL,
+      ...(queue ? { requireApproval: true } : {}),
+      ...(resume ? { resumeRunId: resume } : {}),
+      ...(overrideGuardrails ? { overrideGuardrails: true } : {}),
     };
 
     // Validate config
@@ -117,6 +136,14 @@ const run = async (): Promise<void> => {
     // Run sync
     const summary: RingbaCostSyncSummary = await syncCostToRingba(config, dateRange, category);
 
+    if (summary.status === 'blocked') {
+      console.error('');
+      console.error('Sync BLOCKED by guardrails (nothing pushed):');
+      (summary.guardrailViolations ?? []).forEach((v) => console.error(`  - ${v.rule}: ${v.message}`));
+      console.error('Re-run with --override-guardrails after checking the changes.');
+      process.exit(2);
+    }
+
     console.log('');
     console.log('Sync completed successfully!');
     console.log('');
@@ -127,6 +154,11 @@ const run = async (): Promise<void> => {
       process.exit(1);
     }
 
+    if (summary.verification && summary.verification.mismatched > 0) {
+      console.error(`WARNING: ${summary.verification.mismatched} override(s) not reflected in the Ringba call log after a retry`);
+      process.exit(1);
+    }
+
     process.exit(0);
   } catch (error) {
     console.error('');
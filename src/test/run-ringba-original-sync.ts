@@ -3,10 +3,11 @@
  * Ringba Original Payout/Revenue Sync – run for a date range.
  *
  * Usage:
- *   npx tsx src/test/run-ringba-original-sync.ts [date-range] [category]
+ *   npx tsx src/test/run-ringba-original-sync.ts [date-range] [category] [--recordings]
  *
  * date-range: "current" | "today" | "historical" | "past10days" | YYYY-MM-DD | start:end
  * category: "API" | "STATIC" | omit for all
+ * --recordings: also fetch recording URLs and transcripts (same as RINGBA_FETCH_RECORDINGS=true)
  *
  * Examples:
  *   npx tsx src/test/run-ringba-original-sync.ts current
@@ -21,6 +22,7 @@ import {
   getDateRangeDescription,
   getCustomDateRange,
 } from '../utils/date-utils.js';
+import { isKnownCategory } from '../config/campaign-registry.js';
 import type { DateRange, RingbaOriginalSyncConfig, Category } from '../types/index.js';
 
 dotenv.config({ path: join(process.cwd(), '.env') });
@@ -72,15 +74,17 @@ function parseDateRange(arg: string): DateRange {
 }
 
 async function main() {
-  const dateArg = process.argv[2] ?? 'current';
-  const categoryArg = process.argv[3] ?? null;
-  const category: Category | null =
-    categoryArg === 'API' || categoryArg === 'STATIC' ? categoryArg : null;
+  const args = process.argv.slice(2);
+  const positional = args.filter((a) => !a.startsWith('--'));
+  const dateArg = positional[0] ?? 'current';
+  const categoryArg = positional[1] ?? null;
+  const category: Category | null = categoryArg && isKnownCategory(categoryArg) ? categoryArg : null;
 
   const config: RingbaOriginalSyncConfig = {
     ringbaAccountId: process.env.RINGBA_ACCOUNT_ID,
     ringbaApiToken: process.env.RINGBA_API_TOKEN,
     neonDatabaseUrl: process.env.NEON_DATABASE_URL,
+    ...(args.includes('--recordings') ? { fetchRecordings: true } : {}),
   };
 
   if (!config.ringbaAccountId || !config.ringbaApiToken) {
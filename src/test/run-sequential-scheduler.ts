@@ -21,6 +21,7 @@
  * Usage:
  *   npm run scheduler
  *   npm run scheduler:sequential
+ *   npm run scheduler -- --run-now "9 PM Standard Sync"   (run one schedule once and exit)
  * 
  * To stop the scheduler, press Ctrl+C
  */
@@ -127,6 +128,25 @@ const main = async (): Promise<void> => {
   
   // Create scheduler with default configuration
   const scheduler = new SequentialScheduler(DEFAULT_SCHEDULER_CONFIG);
+
+  // --run-now: execute one schedule immediately (e.g. offline against `npm run mock:apis`) and exit
+  const runNowIndex = process.argv.indexOf('--run-now');
+  if (runNowIndex !== -1) {
+    const scheduleName = process.argv[runNowIndex + 1];
+    if (!scheduleName) {
+      console.error('[ERROR] --run-now needs a schedule name');
+      process.exit(1);
+    }
+    try {
+      await scheduler.initialize();
+      const result = await scheduler.runScheduleNow(scheduleName);
+      console.log(`[INFO] ${result.scheduleName}: ${result.successCount} succeeded, ${result.failureCount} failed`);
+      process.exit(result.success ? 0 : 1);
+    } catch (error) {
+      console.error('[ERROR]', (error as Error).message);
+      process.exit(1);
+    }
+  }
   
   // Setup graceful shutdown
   setupGracefulShutdown(scheduler);
@@ -10,7 +10,8 @@ export interface DateRange {
 }
 
 export type ServiceType = 'historical' | 'current' | 'custom' | 'unknown';
-export type Category = 'STATIC' | 'API';
+/** Campaign category key from the campaign registry (src/config/campaign-registry.ts), e.g. 'STATIC' or 'API' */
+export type Category = string;
 export type SessionStatus = 'running' | 'completed' | 'failed';
 
 export interface Session {
@@ -20,6 +21,13 @@ export interface Session {
 }
 
 export interface ElocalCall {
+  /**
+   * Stable identity persisted as ringba_call_data.elocal_call_key: 'elocal:<id>' when the API
+   * returns a call id, otherwise a deterministic fingerprint (see processCampaignCalls).
+   */
+  callKey?: string | null;
+  /** eLocal's own call id, when the API exposes one */
+  elocalCallId?: string | null;
   callerId: string;
   dateOfCall: string;
   elocalPayout: number;
@@ -31,11 +39,46 @@ export interface ElocalCall {
   totalDuration?: number | null;
   adjustmentTime?: string | null;
   adjustmentAmount?: number | null;
+  /** eLocal adjustment_category for the latest adjustment (e.g. 'Duplicate', 'Short call') */
+  adjustmentCategory?: string | null;
+  /** eLocal call classification */
+  classification?: string | null;
+  campaignPhone?: string | null;
   unmatched?: boolean;
   ringbaInboundCallId?: string | null;
   originalDateOfCall?: string;
 }
 
+/** Which process changed a money column (call_payout_history.source) */
+export type PayoutChangeSource = 'elocal_fetch' | 'original_sync' | 'cost_sync';
+
+/** One money-column change recorded in call_payout_history */
+export interface PayoutChange {
+  /** ringba_call_data.id, when the change belongs to an eLocal call row */
+  callId: number | null;
+  ringbaId: string | null;
+  /** 'ringba_call_data', 'ringba_original_sync' or 'ringba' (pushed to the Ringba API) */
+  tableName: string;
+  columnName: string;
+  oldValue: number | null;
+  newValue: number | null;
+  source: PayoutChangeSource;
+  sessionId: string | null;
+}
+
+export interface PayoutHistoryEntry {
+  id: number;
+  call_id: number | null;
+  ringba_id: string | null;
+  table_name: string;
+  column_name: string;
+  old_value: string | null;
+  new_value: string | null;
+  source: PayoutChangeSource;
+  session_id: string | null;
+  changed_at: string;
+}
+
 export interface AdjustmentDetail {
   callerId: string;
   timeOfCall: string;
@@ -48,6 +91,10 @@ export interface AdjustmentDetail {
 }
 
 export interface RawApiCall {
+  /** eLocal call id (field name differs between API versions) */
+  call_id?: string | number;
+  id?: string | number;
+  uuid?: string;
   caller_phone?: string;
   callerPhoneNumber?: string;
   callerId?: string;
@@ -74,10 +121,66 @@ export interface RawApiCall {
   adjustment_category?: string | null;
 }
 
+/** eLocal record rejected by validation, as stored in quarantined_elocal_records */
+export interface QuarantinedElocalRecord {
+  id: number;
+  session_id: string | null;
+  campaign_uuid: string | null;
+  category: string;
+  raw_record: unknown;
+  reason: string;
+  status: 'quarantined' | 'reprocessed';
+  quarantined_at: string;
+  reprocessed_at: string | null;
+}
+
+export interface ArchivedElocalResponse {
+  id: number;
+  session_id: string;
+  campaign_uuid: string;
+  category: string;
+  chunk_start: string;
+  chunk_end: string;
+  /** Response bodies in page order, decompressed */
+  pages: unknown[];
+}
+
 export interface ElocalApiResponse {
   calls: RawApiCall[];
   totalCalls: number;
   raw: unknown;
+  /** Every response body received, in page order */
+  pages: unknown[];
+}
+
+/** One field an eLocal fetch would change on an existing ringba_call_data row */
+export interface ElocalFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/** What insertCallsBatch would do with one eLocal call (dry-run preview) */
+export interface ElocalCallDiff {
+  action: 'insert' | 'update' | 'unchanged';
+  /** Existing ringba_call_data.id (null for inserts) */
+  callId: number | null;
+  callerId: string;
+  /** UTC call timestamp as it would be stored */
+  callTimestamp: string;
+  category: Category;
+  changes: ElocalFieldChange[];
+}
+
+export interface ElocalFetchDiffSummary {
+  inserts: number;
+  updates: number;
+  unchanged: number;
+  /** Field name -> number of rows where it would change */
+  fieldChanges: Record<string, number>;
+  diffs: ElocalCallDiff[];
+  /** Diff file written, when requested */
+  file?: string;
 }
 
 export interface ScrapingResult {
@@ -88,21 +191,45 @@ export interface ScrapingResult {
     totalPayout: number;
     uniqueCallers: number;
     adjustmentsApplied: number;
+    /** Raw records that failed validation and were written to quarantined_elocal_records */
+    quarantined: number;
+    /** Fetched days whose result set matched the last watermark, so nothing was written */
+    unchangedDays: number;
   };
   calls: ElocalCall[];
   downloadedFile: {
     file: string;
     size: number;
   };
+  /** Dry runs report the rows that would have been inserted/updated */
   databaseResults: {
     callsInserted: number;
     callsUpdated: number;
+    /** New rows written to adjustment_details (already-recorded adjustments are skipped) */
+    adjustmentsInserted?: number;
   };
+  chunks?: {
+    total: number;
+    fetched: number;
+    resumed: number;
+  };
+  /** Dry runs only: what the fetch would have written */
+  dryRun?: ElocalFetchDiffSummary;
 }
 
 export interface Config {
   elocalApiKey?: string;
   neonDatabaseUrl?: string;
+  /** Days per eLocal API request when fetching a range (default: ELOCAL_CHUNK_DAYS or 1) */
+  elocalChunkDays?: number;
+  /** Skip chunks already checkpointed by a previous failed run of the same range (default true) */
+  resumeFromCheckpoint?: boolean;
+  /** Fetch and compare against the database without writing anything */
+  dryRun?: boolean;
+  /** Dry runs: write the diff to this file (.csv for CSV, anything else JSON) */
+  diffOutputFile?: string;
+  /** Skip the write phase for days whose eLocal result set is unchanged (default true; SYNC_WATERMARKS=false disables) */
+  useWatermarks?: boolean;
 }
 
 export interface SessionUpdate {
@@ -142,8 +269,79 @@ export interface RingbaOriginalSyncConfig {
   ringbaAccountId?: string;
   ringbaApiToken?: string;
   neonDatabaseUrl?: string;
+  /** Skip saving target-days whose Ringba result set is unchanged (default true; SYNC_WATERMARKS=false disables) */
+  useWatermarks?: boolean;
+  /** (target, day) chunks fetched at once (default RINGBA_FETCH_CONCURRENCY or 4) */
+  fetchConcurrency?: number;
+  /** Ringba call-log page requests per second for the account (default RINGBA_REQUESTS_PER_SECOND or 5) */
+  requestsPerSecond?: number;
+  /** Also fetch recording URLs and transcripts into ringba_call_data (default RINGBA_FETCH_RECORDINGS=true) */
+  fetchRecordings?: boolean;
+}
+
+/** ringba_recording_status.status: ready = transcript stored, pending = retry later, unavailable = gave up */
+export type RecordingStatus = 'ready' | 'pending' | 'unavailable';
+
+/** ringba_call_data row still missing a transcript */
+export interface RecordingCandidate {
+  id: number;
+  ringba_id: string;
+  call_timestamp: string;
+  recordingUrl: string | null;
+  /** Earlier not-ready attempts (0 when never tried) */
+  attempts: number;
 }
 
+export interface RecordingIngestSummary {
+  candidates: number;
+  /** Calls that got a transcript (and recording URL) */
+  transcripts: number;
+  /** Calls that got a recording URL but no transcript yet; retried later */
+  recordingsOnly: number;
+  /** Calls with neither yet; retried later */
+  notReady: number;
+  /** Calls given up on after the maximum attempts */
+  unavailable: number;
+  /** Calls in batches whose Ringba request failed; retried next run */
+  failed: number;
+}
+
+/** Transcript/recording coverage of ringba_call_data for a date range */
+export interface RecordingProgress {
+  total: number;
+  withRingbaId: number;
+  withRecording: number;
+  withTranscript: number;
+  pending: number;
+  unavailable: number;
+}
+
+/** Row of ringba_targets */
+export interface RingbaTargetRecord {
+  target_id: string;
+  target_name: string;
+  /** Campaign category the target's calls belong to; null until someone maps it */
+  category: string | null;
+  /** Whether our syncs include the target */
+  enabled: boolean;
+  /** Whether the target is enabled in Ringba */
+  ringba_enabled: boolean;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+export interface RingbaTargetDiscoverySummary {
+  total: number;
+  /** Target IDs seen for the first time in this run */
+  discovered: string[];
+  /** Targets active in Ringba without a category mapping (their calls are not synced) */
+  unmapped: Array<{ id: string; name: string }>;
+  warnings: string[];
+}
+
+/** sync_watermarks.source: eLocal rows are keyed by campaign UUID, Ringba rows by target ID */
+export type SyncWatermarkSource = 'elocal' | 'ringba';
+
 /** Ringba call as returned by API and stored in ringba_original_sync */
 export interface RingbaCallForSync {
   inboundCallId: string;
@@ -159,6 +357,8 @@ export interface RingbaCallForSync {
   targetName: string;
   campaignName: string | null;
   publisherName: string | null;
+  /** Extra configured call-log columns (RINGBA_CALLLOG_COLUMNS), stored in ringba_original_sync.extra */
+  extra?: Record<string, unknown>;
 }
 
 /** Result of Ringba Original Sync */
@@ -175,4 +375,167 @@ export interface RingbaOriginalSyncSummary {
   failed: number;
   unmatched: number;
   skippedPreserved: number; /** eLocal rows already had original_payout/revenue */
+  /** How calls were paired and where the optimal assignment differs from the greedy one */
+  assignment?: AssignmentReport;
+  /** Run identifier recorded as session_id in call_payout_history */
+  runId?: string;
+  /** (target, day) result sets unchanged since the last watermark, not re-saved */
+  unchangedTargetDays?: number;
+  /** Target discovery warnings, e.g. new Ringba targets without a category mapping */
+  targetWarnings?: string[];
+  /** Recording/transcript ingestion results when fetchRecordings is on */
+  recordings?: RecordingIngestSummary;
+}
+
+/** Throughput of a run of the adaptive-concurrency executor (src/http/adaptive-executor.ts) */
+export interface AdaptiveExecutorStats {
+  tasks: number;
+  errors: number;
+  /** Tasks that hit rate limiting (429), including retries inside a task */
+  throttled: number;
+  durationMs: number;
+  throughputPerSecond: number;
+  /** errors / tasks */
+  errorRate: number;
+  avgLatencyMs: number;
+  concurrency: { initial: number; min: number; max: number; final: number };
+}
+
+/** Service that links calls through src/utils/call-matching.ts (one shared MatchProfile, see getMatchProfile) */
+export type MatchService = 'cost_sync' | 'original_sync' | 'elocal_upsert';
+
+/**
+ * How a candidate's call time is parsed:
+ * iso = already UTC (eLocal rows), eastern = Ringba wall-clock time in US Eastern,
+ * flexible = Date-parseable or Ringba "M/D/YYYY h:mm:ss AM" read as local time
+ */
+export type CallTimeFormat = 'iso' | 'eastern' | 'flexible';
+
+/** Why a pair of calls was not linked */
+export type MatchRejectReason =
+  | 'category_mismatch'
+  | 'caller_anonymous'
+  | 'caller_missing'
+  | 'caller_mismatch'
+  | 'parse_elocal_fail'
+  | 'parse_ringba_fail'
+  | 'days_diff'
+  | 'time_window'
+  | 'duration_tolerance';
+
+/** One side of a potential eLocal ↔ Ringba link, in the shape the matcher compares */
+export interface MatchCandidate {
+  id: number | string;
+  category: Category | null;
+  callerId: string | null;
+  /** Pre-normalized caller, used instead of callerId when set */
+  callerIdE164?: string | null;
+  callTime: string | Date | null;
+  /** How callTime is stored by the candidate's source; default 'iso' */
+  timeFormat?: CallTimeFormat;
+  /** Seconds; null or 0 when unknown */
+  durationSeconds: number | null;
+  /** Amount compared when the profile weighs payouts; null when unknown */
+  payout: number | null;
+}
+
+/** Signals and tolerances used to link calls */
+export interface MatchProfile {
+  service: MatchService;
+  /** Max minutes between call starts on the same day */
+  windowMinutes: number;
+  /** Max minutes between call starts when the calls fall on adjacent (UTC) days */
+  adjacentDayWindowMinutes: number;
+  /** Max calendar days (UTC) between the calls */
+  maxDaysApart: number;
+  /** Compare call starts at minute precision */
+  ignoreSeconds: boolean;
+  /** Reject when both durations are known and differ by more; null = durations not checked */
+  durationToleranceSeconds: number | null;
+  /** Score × factor when both durations are known and within withinSeconds */
+  durationBonus: { withinSeconds: number; factor: number } | null;
+  /** Payout difference treated as equal */
+  payoutTolerance: number;
+  /**
+   * When both payouts are above zero: score × matchFactor if they are equal,
+   * else score + difference × mismatchPenaltyPerDollar; null = payouts not used
+   */
+  payoutWeighting: { matchFactor: number; mismatchPenaltyPerDollar: number } | null;
+}
+
+/** Exceptions to the shared profile for one service (campaign registry matching.serviceOverrides) */
+export type MatchProfileOverrides = Partial<Omit<MatchProfile, 'service'>>;
+
+/** Outcome of comparing two candidates; lower score = better link */
+export type MatchDecision =
+  | {
+      matched: true;
+      score: number;
+      timeDiffMinutes: number;
+      daysApart: number;
+      durationDiffSeconds: number | null;
+      payoutDiff: number | null;
+    }
+  | { matched: false; reason: MatchRejectReason; details: Record<string, unknown> };
+
+/** How linked pairs are chosen within a (category, caller) group (src/utils/call-assignment.ts) */
+export type AssignmentMethod = 'optimal' | 'greedy';
+
+/** Cost of linking a pair in the optimal assignment */
+export type AssignmentCostName = 'score' | 'time' | 'payout_first';
+
+/** An eLocal call the greedy and optimal assignments link to different Ringba calls (null = unlinked) */
+export interface AssignmentDifference {
+  category: string;
+  caller: string;
+  elocalCallId: number;
+  greedyRingbaCallId: string | null;
+  optimalRingbaCallId: string | null;
+}
+
+/** Greedy vs optimal assignment for a sync run; the method in use is what the run applied */
+export interface AssignmentReport {
+  method: AssignmentMethod;
+  cost: AssignmentCostName;
+  /** (category, caller) groups with at least one accepted pair */
+  groups: number;
+  /** Groups the two assignments link differently */
+  differingGroups: number;
+  linkedGreedy: number;
+  linkedOptimal: number;
+  differences: AssignmentDifference[];
+}
+
+/** Why a call was linked, stored in call_match_links next to the ringba_id link */
+export interface MatchLinkInfo {
+  service: Exclude<MatchService, 'elocal_upsert'>;
+  score: number;
+  timeDiffMinutes: number;
+  durationDiffSeconds: number | null;
+  payoutDiff: number | null;
+  assignment: AssignmentMethod;
+  matcherVersion: string;
+}
+
+/** Row of call_match_links with the linked call, for audits */
+export interface MatchLinkRecord extends MatchLinkInfo {
+  callId: number;
+  ringbaId: string;
+  category: string | null;
+  callerId: string | null;
+  callTimestamp: string | null;
+  runId: string | null;
+  linkedAt: string;
+}
+
+/** Filter for call_match_links audits; dates are inclusive call days (YYYY-MM-DD) */
+export interface MatchLinkFilter {
+  startDate: string;
+  endDate: string;
+  category?: string | null;
+  service?: MatchLinkInfo['service'] | null;
+  /** Only links scoring at least this (higher score = weaker match) */
+  minScore?: number | null;
+  /** Only links whose call starts are at least this many minutes apart */
+  minTimeDiffMinutes?: number | null;
 }
@@ -1,10 +1,25 @@
 // Type definitions for Ringba Cost Sync service
 
+import type { AdaptiveExecutorStats, AssignmentReport, MatchLinkInfo, MatchRejectReason } from './index.js';
+
 /** Config for Ringba Cost Sync */
 export interface RingbaCostSyncConfig {
   ringbaAccountId?: string;
   ringbaApiToken?: string;
   neonDatabaseUrl?: string;
+  /** Queue Step 4 overrides in pending_payment_overrides for review instead of pushing them (default RINGBA_OVERRIDE_APPROVAL=true) */
+  requireApproval?: boolean;
+  /**
+   * Continue an interrupted run under its run id ('latest' = most recent run with unfinished
+   * ringba_override_ledger entries). Overrides the run already applied are skipped.
+   */
+  resumeRunId?: string;
+  /** Push even when the run exceeds the guardrails (src/config/cost-sync-guardrails.ts) */
+  overrideGuardrails?: boolean;
+  /** Re-read pushed calls from the call log and compare amounts after Step 4 (default RINGBA_VERIFY_OVERRIDES != false) */
+  verifyOverrides?: boolean;
+  /** Most overrides in flight at once in Step 4 (default RINGBA_PUSH_CONCURRENCY or 4) */
+  pushConcurrency?: number;
 }
 
 /** eLocal call from database for cost matching */
@@ -30,6 +45,7 @@ export interface RingbaCallForCostSync {
   revenue_amount: number | string;
   target_id: string | null;
   call_duration?: number | string | null;
+  publisher_name?: string | null;
 }
 
 /** Match result between eLocal and Ringba call */
@@ -57,18 +73,24 @@ export interface RingbaPaymentUpdate {
     timeDiff: number;
     durationMatch: boolean;
   };
+  /** Payout policy rule that produced the new amounts (src/config/payout-policy.ts) */
+  policyRule?: string;
 }
 
 /** Unmatched call result */
 export interface UnmatchedCall {
   elocalCall: ElocalCallForCostSync;
   reason: string;
+  /** Why each candidate Ringba call was rejected (src/utils/call-matching.ts) */
+  reasonCodes?: MatchRejectReason[];
 }
 
 /** Matched call for ringba_inbound_call_id update */
 export interface MatchedCallForIdUpdate {
   elocalCallId: number;
   ringbaInboundCallId: string;
+  /** Why the calls were linked (stored in call_match_links) */
+  match?: MatchLinkInfo;
 }
 
 /** Result from updating a single call in Ringba */
@@ -78,6 +100,10 @@ export interface RingbaUpdateResult {
   ringbaInboundCallId: string;
   result?: any;
   error?: string;
+  /** ringba_override_ledger.id of the attempt, when the ledger row was written */
+  ledgerId?: number;
+  /** HTTP status of the override request (null when no response was received) */
+  httpStatus?: number | null;
 }
 
 /** Summary of cost sync operation */
@@ -93,6 +119,203 @@ export interface RingbaCostSyncSummary {
   updated: number;
   failed: number;
   unmatched: number;
+  /** How calls were paired in Step 3 and where the optimal assignment differs from the greedy one */
+  assignment?: AssignmentReport;
+  /** Run identifier recorded as session_id in call_payout_history */
+  runId?: string;
+  /** Overrides written to pending_payment_overrides instead of pushed (approval mode) */
+  queued?: number;
+  /** Updates skipped because ringba_override_ledger shows the same override already applied */
+  alreadyApplied?: number;
+  /** Updates per payout policy rule id */
+  policyRules?: Record<string, number>;
+  /** 'blocked': guardrails stopped the run before Step 4; nothing was pushed or queued */
+  status?: 'completed' | 'blocked';
+  guardrailViolations?: CostSyncGuardrailViolation[];
+  /** Verify-after-write results for the overrides pushed in Step 4 */
+  verification?: OverrideVerificationSummary;
+  /** Step 4 throughput, error rate and how the push concurrency adapted */
+  push?: AdaptiveExecutorStats;
+}
+
+/** ringba_override_ledger.verify_status: amounts re-read from the call log after the push */
+export type OverrideVerifyStatus = 'verified' | 'mismatched';
+
+/** A pushed override whose call-log amounts still differ from what was sent after the retry */
+export interface OverrideMismatch {
+  ringbaInboundCallId: string;
+  elocalCallId: number;
+  expectedPayout: number;
+  expectedRevenue: number;
+  /** null when the call log did not return the call */
+  actualPayout: number | null;
+  actualRevenue: number | null;
+}
+
+export interface OverrideVerificationSummary {
+  checked: number;
+  verified: number;
+  /** Mismatched on the first check and re-sent once */
+  retried: number;
+  /** Still mismatched after the retry */
+  mismatched: number;
+  /** Calls that could not be checked (call-log request failed) */
+  unchecked: number;
+  mismatches: OverrideMismatch[];
+}
+
+/** Guardrail limits for a cost sync run; numeric limits of 0 are disabled */
+export interface CostSyncGuardrailLimits {
+  /** Max $ change of one call's payout or revenue */
+  maxCallDelta: number;
+  /** Max share (0-1) of matched calls changed in one run */
+  maxChangedShare: number;
+  /** Matched calls needed before maxChangedShare is checked */
+  minCallsForShare: number;
+  /** Max total $ change per call day */
+  maxDailyDelta: number;
+  /** Block overrides that drop a non-zero payout or revenue to $0 */
+  blockZeroDrops: boolean;
+}
+
+export interface CostSyncGuardrailViolation {
+  rule: 'max_call_delta' | 'max_changed_share' | 'max_daily_delta' | 'zero_drop';
+  message: string;
+  /** Offending calls, for per-call rules */
+  ringbaInboundCallIds?: string[];
+}
+
+/**
+ * ringba_override_ledger.status: pending while the request is in flight; interrupted when a
+ * resumed run finds a pending row left by a process that died mid-request.
+ */
+export type OverrideLedgerStatus = 'pending' | 'success' | 'failed' | 'interrupted';
+
+/** Row of ringba_override_ledger */
+export interface OverrideLedgerEntry {
+  id: number;
+  run_id: string;
+  ringba_inbound_call_id: string;
+  elocal_call_id: number | null;
+  target_id: string | null;
+  old_payout: number | string | null;
+  old_revenue: number | string | null;
+  new_payout: number | string;
+  new_revenue: number | string;
+  request_body: unknown;
+  response_body: unknown;
+  http_status: number | null;
+  policy_rule: string | null;
+  status: OverrideLedgerStatus;
+  verify_status: OverrideVerifyStatus | null;
+  verified_payout: number | string | null;
+  verified_revenue: number | string | null;
+  verified_at: string | null;
+  error: string | null;
+  attempted_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * pending_payment_overrides.status:
+ * pending → approved → pushed | failed, or pending → rejected.
+ * stale: the eLocal payout changed after the override was queued; superseded: a newer run queued a
+ * different override for the same call.
+ */
+export type PendingOverrideStatus = 'pending' | 'approved' | 'rejected' | 'stale' | 'superseded' | 'pushed' | 'failed';
+
+/** Row of pending_payment_overrides */
+export interface PendingPaymentOverride {
+  id: number;
+  run_id: string | null;
+  elocal_call_id: number;
+  ringba_inbound_call_id: string;
+  target_id: string | null;
+  category: string | null;
+  call_timestamp: string | null;
+  current_payout: number | string;
+  current_revenue: number | string;
+  new_payout: number | string;
+  new_revenue: number | string;
+  /** eLocal payout (ringba_call_data.ringba_revenue) the override was computed from; used for staleness */
+  elocal_payout: number | string;
+  match_time_diff: number | string | null;
+  match_duration: boolean | null;
+  policy_rule: string | null;
+  status: PendingOverrideStatus;
+  review_note: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+  pushed_at: string | null;
+  push_error: string | null;
+}
+
+/** Filter for listing/approving queued overrides; all fields optional and ANDed */
+export interface PendingOverrideFilter {
+  ids?: number[];
+  status?: PendingOverrideStatus;
+  category?: string;
+  /** Inclusive call date range (YYYY-MM-DD) */
+  startDate?: string;
+  endDate?: string;
+  runId?: string;
+}
+
+/** Result of pushing approved overrides */
+export interface PendingOverridePushSummary {
+  approved: number;
+  stale: number;
+  pushed: number;
+  failed: number;
+  /** Approved overrides the ledger shows as already applied (marked pushed without a request) */
+  alreadyApplied: number;
+  runId: string;
+}
+
+/** Which calls a rollback covers; the date range is inclusive (YYYY-MM-DD) */
+export interface RingbaRollbackRequest {
+  startDate: string;
+  endDate: string;
+  category?: string | null;
+  /** Only undo overrides from this cost sync / push run (ringba_override_ledger.run_id) */
+  runId?: string | null;
+  dryRun?: boolean;
+}
+
+/**
+ * A call whose Ringba payout/revenue was overridden, with the values to restore.
+ * restoreSource: 'ledger' = old amounts of the first successful override (in the run, when one is
+ * given); 'original' = ringba_call_data.ringba_original_payout / ringba_original_sync, for calls
+ * overridden before the ledger existed (known from call_payout_history, or from a ringba_original_payout
+ * that differs from the current ringba_original_sync payout).
+ */
+export interface RingbaRollbackCandidate {
+  elocalCallId: number;
+  ringbaInboundCallId: string;
+  targetId: string | null;
+  category: string | null;
+  callTimestamp: string | null;
+  currentPayout: number;
+  currentRevenue: number;
+  /** null when no pre-override amount is known (the call is skipped) */
+  restorePayout: number | null;
+  /** null when the pre-override revenue is unknown (no ledger entry or revenue history); such calls are skipped */
+  restoreRevenue: number | null;
+  restoreSource: 'ledger' | 'original';
+}
+
+/** Result of a rollback run */
+export interface RingbaRollbackSummary {
+  runId: string;
+  dryRun: boolean;
+  candidates: number;
+  /** Calls already at their pre-override amounts */
+  unchanged: number;
+  /** Calls whose pre-override payout or revenue is unknown */
+  skipped: number;
+  restored: number;
+  failed: number;
+  rollbacks: RingbaRollbackCandidate[];
 }
 
 /** Payload for Ringba payment override API */
@@ -0,0 +1,204 @@
+/**
+ * One-to-one assignment of eLocal ↔ Ringba calls within a (category, caller) group.
+ *
+ * A caller with several calls in a day gives a small bipartite graph whose edges are the pairs
+ * decideMatch (src/utils/call-matching.ts) accepts. The optimal assignment links as many calls as
+ * possible and, among those, has the lowest total cost (Hungarian algorithm). The services also
+ * run their previous greedy assignment and report the calls it would have linked differently.
+ *
+ * Settings come from the environment:
+ *   CALL_ASSIGNMENT        optimal (default) | greedy — which assignment the sync applies
+ *   CALL_ASSIGNMENT_COST   cost of linking a pair (default payout_first):
+ *                            score         matcher score (time difference with duration/payout adjustments)
+ *                            time          minutes between call starts
+ *                            payout_first  matcher score minus $1000 per eLocal payout dollar, so calls
+ *                                          carrying money win conflicts (what the greedy priority did)
+ */
+import type {
+  AssignmentCostName,
+  AssignmentDifference,
+  AssignmentMethod,
+  AssignmentReport,
+  MatchCandidate,
+  MatchDecision,
+} from '../types/index.js';
+
+type AcceptedDecision = Extract<MatchDecision, { matched: true }>;
+
+export type AssignmentCost = (decision: AcceptedDecision, elocal: MatchCandidate, ringba: MatchCandidate) => number;
+
+export const ASSIGNMENT_COSTS: Record<AssignmentCostName, AssignmentCost> = {
+  score: (decision) => decision.score,
+  time: (decision) => decision.timeDiffMinutes,
+  payout_first: (decision, elocal) => decision.score - (elocal.payout ?? 0) * 1000,
+};
+
+/** A linked pair, by index into the group's eLocal and Ringba candidates */
+export interface AssignedPair {
+  elocalIndex: number;
+  ringbaIndex: number;
+  decision: AcceptedDecision;
+}
+
+/** decisions[i][j] = decideMatch(elocal[i], ringba[j]) for one group */
+export interface AssignmentGroup {
+  elocal: MatchCandidate[];
+  ringba: MatchCandidate[];
+  decisions: MatchDecision[][];
+}
+
+export const getAssignmentSettings = (): { method: AssignmentMethod; cost: AssignmentCostName } => {
+  const method = process.env.CALL_ASSIGNMENT === 'greedy' ? 'greedy' : 'optimal';
+  const configured = process.env.CALL_ASSIGNMENT_COST as AssignmentCostName | undefined;
+  const cost = configured && configured in ASSIGNMENT_COSTS ? configured : 'payout_first';
+  return { method, cost };
+};
+
+/**
+ * Min-cost assignment of a rows × cols matrix with rows <= cols (Hungarian algorithm, O(rows² · cols)).
+ * Returns the column assigned to each row.
+ */
+const hungarian = (cost: number[][]): number[] => {
+  const n = cost.length;
+  const m = cost[0].length;
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(m + 1).fill(0);
+  const p = new Array<number>(m + 1).fill(0);
+  const way = new Array<number>(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(m + 1).fill(Infinity);
+    const used = new Array<boolean>(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const reduced = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assigned = new Array<number>(n).fill(-1);
+  for (let j = 1; j <= m; j++) {
+    if (p[j] > 0) assigned[p[j] - 1] = j - 1;
+  }
+  return assigned;
+};
+
+/**
+ * Optimal assignment of a group: most links first, then lowest total cost.
+ *
+ * Solved on the square (eLocal + Ringba) matrix where every call can also take a dummy partner
+ * ("unlinked") at a penalty larger than any achievable cost saving, and rejected pairs cost more
+ * than leaving both calls unlinked.
+ */
+export const assignOptimal = (group: AssignmentGroup, costOf: AssignmentCost): AssignedPair[] => {
+  const { elocal, ringba, decisions } = group;
+  const n = elocal.length;
+  const m = ringba.length;
+  if (n === 0 || m === 0) return [];
+
+  const pairCost: Array<Array<number | null>> = decisions.map((row, i) =>
+    row.map((decision, j) => (decision.matched ? costOf(decision, elocal[i], ringba[j]) : null))
+  );
+  const maxAbs = Math.max(0, ...pairCost.flat().map((c) => (c === null ? 0 : Math.abs(c))));
+  const unlinked = (maxAbs + 1) * (Math.min(n, m) + 1) * 2;
+  const rejected = unlinked * 4;
+
+  const size = n + m;
+  const matrix: number[][] = [];
+  for (let i = 0; i < size; i++) {
+    const row = new Array<number>(size);
+    for (let j = 0; j < size; j++) {
+      if (i < n && j < m) row[j] = pairCost[i][j] ?? rejected;
+      else if (i < n || j < m) row[j] = unlinked;
+      else row[j] = 0;
+    }
+    matrix.push(row);
+  }
+
+  const assigned = hungarian(matrix);
+  const pairs: AssignedPair[] = [];
+  for (let i = 0; i < n; i++) {
+    const j = assigned[i];
+    const decision = j >= 0 && j < m ? decisions[i][j] : null;
+    if (decision?.matched) pairs.push({ elocalIndex: i, ringbaIndex: j, decision });
+  }
+  return pairs;
+};
+
+/**
+ * eLocal calls of a group linked differently by the greedy and the optimal assignment.
+ * category/caller describe the group; ringbaId maps a Ringba candidate index to its inbound call id.
+ */
+export const diffAssignments = (
+  group: AssignmentGroup,
+  greedy: AssignedPair[],
+  optimal: AssignedPair[],
+  category: string,
+  caller: string,
+  ringbaId: (ringbaIndex: number) => string
+): AssignmentDifference[] => {
+  const greedyByElocal = new Map(greedy.map((p) => [p.elocalIndex, p.ringbaIndex]));
+  const optimalByElocal = new Map(optimal.map((p) => [p.elocalIndex, p.ringbaIndex]));
+  const differences: AssignmentDifference[] = [];
+  group.elocal.forEach((candidate, i) => {
+    const before = greedyByElocal.get(i);
+    const after = optimalByElocal.get(i);
+    if (before === after) return;
+    differences.push({
+      category,
+      caller,
+      elocalCallId: Number(candidate.id),
+      greedyRingbaCallId: before === undefined ? null : ringbaId(before),
+      optimalRingbaCallId: after === undefined ? null : ringbaId(after),
+    });
+  });
+  return differences;
+};
+
+/**
+ * Log how the optimal assignment differs from the greedy one (first sampleSize differences)
+ */
+export const printAssignmentReport = (prefix: string, report: AssignmentReport, sampleSize = 20): void => {
+  console.log(
+    `${prefix} Assignment: ${report.method} (cost ${report.cost}); greedy links ${report.linkedGreedy}, ` +
+      `optimal links ${report.linkedOptimal}; ${report.differingGroups} of ${report.groups} caller group(s) differ`
+  );
+  for (const d of report.differences.slice(0, sampleSize)) {
+    console.log(
+      `${prefix}   ${d.category} ${d.caller} eLocal #${d.elocalCallId}: ` +
+        `greedy ${d.greedyRingbaCallId ?? 'unlinked'} → optimal ${d.optimalRingbaCallId ?? 'unlinked'}`
+    );
+  }
+  if (report.differences.length > sampleSize) {
+    console.log(`${prefix}   ... and ${report.differences.length - sampleSize} more difference(s)`);
+  }
+};
@@ -0,0 +1,327 @@
+/**
+ * Call matching: decides whether an eLocal call and a Ringba call are the same call.
+ *
+ * Every place that links the two sides uses this module with the same profile, so they agree on
+ * what a match is:
+ * - Ringba cost sync (cost_sync) and Ringba original sync (original_sync)
+ * - eLocal fetch upsert (elocal_upsert): insertCallsBatch loads the keyless ringba_call_data rows
+ *   of the caller and claims the best one decideMatch accepts
+ * - the debug scripts in src/test, which report the reason code of each rejected pair
+ *
+ * The profile: same caller and category, call starts within ±windowMinutes (adjacentDayWindowMinutes
+ * across a UTC day boundary), durations within durationToleranceSeconds when both are known; a closer
+ * duration and an equal payout score better. Tolerances come from the campaign registry (matching)
+ * for the call's category; a service only deviates through matching.serviceOverrides, and a caller
+ * through getMatchProfile's overrides. How each side stores its call time is a property of the
+ * candidate (MatchCandidate.timeFormat), not of the service.
+ */
+import { getCategoryForTarget, getMatchingConfig } from '../config/campaign-registry.js';
+import { parseDateAsEastern } from './date-normalizer.js';
+import type {
+  AssignmentMethod,
+  Category,
+  CallTimeFormat,
+  DatabaseCallRecord,
+  MatchCandidate,
+  MatchDecision,
+  MatchLinkInfo,
+  MatchProfile,
+  MatchProfileOverrides,
+  MatchService,
+  RingbaCallForSync,
+} from '../types/index.js';
+import type { ElocalCallForCostSync, RingbaCallForCostSync } from '../types/ringba-cost-sync.js';
+
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Recorded with every link (call_match_links.matcher_version). Bump when decideMatch, a profile or
+ * the assignment changes how calls are linked, so links made by older logic can be told apart.
+ */
+export const MATCHER_VERSION = 'v2';
+
+/**
+ * Standardize a phone number to E.164 (e.g. "(555) 123-4567" → "+15551234567"); null without digits
+ */
+export const toE164 = (raw: string | null | undefined): string | null => {
+  if (!raw) return null;
+  const digits = String(raw).replace(/\D/g, '');
+  if (!digits) return null;
+  if (String(raw).startsWith('+')) return `+${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  if (digits.length === 10) return `+1${digits}`;
+  return `+${digits}`;
+};
+
+// Date-parseable strings, then Ringba "M/D/YYYY h:mm:ss AM|PM", ISO without zone and YYYY-MM-DD as local time
+const parseFlexible = (dateStr: string): Date | null => {
+  const date = new Date(dateStr);
+  if (!Number.isNaN(date.getTime())) return date;
+  const ringbaFormat = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2}):(\d{2})\s+(AM|PM)$/i);
+  if (ringbaFormat) {
+    let hours = parseInt(ringbaFormat[4], 10);
+    const ampm = ringbaFormat[7].toUpperCase();
+    if (ampm === 'PM' && hours !== 12) hours += 12;
+    else if (ampm === 'AM' && hours === 12) hours = 0;
+    return new Date(
+      parseInt(ringbaFormat[3], 10),
+      parseInt(ringbaFormat[1], 10) - 1,
+      parseInt(ringbaFormat[2], 10),
+      hours,
+      parseInt(ringbaFormat[5], 10),
+      parseInt(ringbaFormat[6], 10)
+    );
+  }
+  const isoMatch = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/);
+  if (isoMatch) {
+    return new Date(
+      parseInt(isoMatch[1], 10),
+      parseInt(isoMatch[2], 10) - 1,
+      parseInt(isoMatch[3], 10),
+      parseInt(isoMatch[4], 10),
+      parseInt(isoMatch[5], 10),
+      parseInt(isoMatch[6], 10)
+    );
+  }
+  const dateOnly = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    return new Date(parseInt(dateOnly[1], 10), parseInt(dateOnly[2], 10) - 1, parseInt(dateOnly[3], 10));
+  }
+  return null;
+};
+
+/**
+ * Parse a call time in the given format; null when it cannot be parsed
+ */
+export const parseCallTime = (value: string | Date | null | undefined, format: CallTimeFormat): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  try {
+    switch (format) {
+      case 'iso': {
+        const date = new Date(value);
+        return Number.isNaN(date.getTime()) ? null : date;
+      }
+      case 'eastern':
+        return parseDateAsEastern(value);
+      case 'flexible':
+        return parseFlexible(value);
+    }
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Call duration in seconds from a stored value ('N/A', '' and non-numbers are unknown)
+ */
+export const toDurationSeconds = (raw: number | string | null | undefined): number | null => {
+  if (raw === null || raw === undefined || raw === '' || raw === 'N/A') return null;
+  const seconds = Number(raw);
+  return Number.isFinite(seconds) ? seconds : null;
+};
+
+// Scoring signals of the shared profile
+const DURATION_BONUS = { withinSeconds: 10, factor: 0.5 };
+const PAYOUT_WEIGHTING = { matchFactor: 0.1, mismatchPenaltyPerDollar: 10 };
+
+/**
+ * Matching signals and tolerances for calls of a category: the shared profile, plus the campaign's
+ * serviceOverrides for this service and any per-call overrides.
+ */
+export const getMatchProfile = (
+  service: MatchService,
+  category: Category | string | null | undefined,
+  overrides: MatchProfileOverrides = {}
+): MatchProfile => {
+  const matching = getMatchingConfig((category || 'STATIC') as Category);
+  return {
+    service,
+    windowMinutes: matching.windowMinutes,
+    adjacentDayWindowMinutes: matching.adjacentDayWindowMinutes,
+    maxDaysApart: 1,
+    ignoreSeconds: false,
+    durationToleranceSeconds: matching.durationToleranceSeconds,
+    durationBonus: DURATION_BONUS,
+    payoutTolerance: matching.payoutTolerance,
+    payoutWeighting: PAYOUT_WEIGHTING,
+    ...matching.serviceOverrides?.[service],
+    ...overrides,
+  };
+};
+
+const utcDay = (date: Date): number => Date.parse(date.toISOString().split('T')[0]);
+
+const toMs = (date: Date, profile: MatchProfile): number =>
+  profile.ignoreSeconds ? new Date(date).setSeconds(0, 0) : date.getTime();
+
+const isAnonymous = (callerId: string | null): boolean => (callerId || '').toLowerCase().includes('anonymous');
+
+/**
+ * Compare an eLocal candidate with a Ringba candidate under a profile.
+ * Checks run in order (category, caller, time, duration); the first failing check is the reason.
+ */
+export const decideMatch = (elocal: MatchCandidate, ringba: MatchCandidate, profile: MatchProfile): MatchDecision => {
+  if (elocal.category !== ringba.category) {
+    return {
+      matched: false,
+      reason: 'category_mismatch',
+      details: { elocalCategory: elocal.category, ringbaCategory: ringba.category },
+    };
+  }
+
+  if (isAnonymous(elocal.callerId) || isAnonymous(ringba.callerId)) {
+    return {
+      matched: false,
+      reason: 'caller_anonymous',
+      details: { elocalCallerId: elocal.callerId, ringbaCallerId: ringba.callerId },
+    };
+  }
+  const elocalCaller = toE164(elocal.callerIdE164 || elocal.callerId);
+  const ringbaCaller = toE164(ringba.callerIdE164 || ringba.callerId);
+  if (!elocalCaller || !ringbaCaller) {
+    return {
+      matched: false,
+      reason: 'caller_missing',
+      details: { elocalCallerId: elocal.callerId, ringbaCallerId: ringba.callerId },
+    };
+  }
+  if (elocalCaller !== ringbaCaller) {
+    return { matched: false, reason: 'caller_mismatch', details: { elocalCaller, ringbaCaller } };
+  }
+
+  const elocalTime = parseCallTime(elocal.callTime, elocal.timeFormat ?? 'iso');
+  if (!elocalTime) {
+    return { matched: false, reason: 'parse_elocal_fail', details: { callTime: elocal.callTime } };
+  }
+  const ringbaTime = parseCallTime(ringba.callTime, ringba.timeFormat ?? 'iso');
+  if (!ringbaTime) {
+    return { matched: false, reason: 'parse_ringba_fail', details: { callTime: ringba.callTime } };
+  }
+
+  const daysApart = Math.abs(utcDay(elocalTime) - utcDay(ringbaTime)) / (DAY_MINUTES * 60 * 1000);
+  if (daysApart > profile.maxDaysApart) {
+    return {
+      matched: false,
+      reason: 'days_diff',
+      details: {
+        elocalDay: elocalTime.toISOString().split('T')[0],
+        ringbaDay: ringbaTime.toISOString().split('T')[0],
+        daysApart,
+      },
+    };
+  }
+
+  const timeDiffMinutes = Math.abs(toMs(elocalTime, profile) - toMs(ringbaTime, profile)) / (60 * 1000);
+  const windowMinutes = daysApart === 0 ? profile.windowMinutes : profile.adjacentDayWindowMinutes;
+  if (timeDiffMinutes > windowMinutes) {
+    return {
+      matched: false,
+      reason: 'time_window',
+      details: { timeDiffMinutes: Math.round(timeDiffMinutes * 10) / 10, windowMinutes, daysApart },
+    };
+  }
+
+  const bothDurations = (elocal.durationSeconds ?? 0) > 0 && (ringba.durationSeconds ?? 0) > 0;
+  const durationDiffSeconds = bothDurations
+    ? Math.abs((elocal.durationSeconds as number) - (ringba.durationSeconds as number))
+    : null;
+  if (
+    durationDiffSeconds !== null &&
+    profile.durationToleranceSeconds !== null &&
+    durationDiffSeconds > profile.durationToleranceSeconds
+  ) {
+    return {
+      matched: false,
+      reason: 'duration_tolerance',
+      details: {
+        elocalDuration: elocal.durationSeconds,
+        ringbaDuration: ringba.durationSeconds,
+        toleranceSeconds: profile.durationToleranceSeconds,
+      },
+    };
+  }
+
+  let score = timeDiffMinutes;
+  if (profile.durationBonus && durationDiffSeconds !== null && durationDiffSeconds <= profile.durationBonus.withinSeconds) {
+    score *= profile.durationBonus.factor;
+  }
+
+  const elocalPayout = elocal.payout ?? 0;
+  const ringbaPayout = ringba.payout ?? 0;
+  const payoutDiff = elocal.payout !== null && ringba.payout !== null ? Math.abs(elocalPayout - ringbaPayout) : null;
+  if (profile.payoutWeighting && elocalPayout > 0 && ringbaPayout > 0 && payoutDiff !== null) {
+    score =
+      payoutDiff <= profile.payoutTolerance
+        ? score * profile.payoutWeighting.matchFactor
+        : score + payoutDiff * profile.payoutWeighting.mismatchPenaltyPerDollar;
+  }
+
+  return { matched: true, score, timeDiffMinutes, daysApart, durationDiffSeconds, payoutDiff };
+};
+
+/**
+ * What to store about an accepted pair when a service links it
+ */
+export const toMatchLinkInfo = (
+  service: MatchLinkInfo['service'],
+  decision: Extract<MatchDecision, { matched: true }>,
+  assignment: AssignmentMethod
+): MatchLinkInfo => ({
+  service,
+  score: decision.score,
+  timeDiffMinutes: decision.timeDiffMinutes,
+  durationDiffSeconds: decision.durationDiffSeconds,
+  payoutDiff: decision.payoutDiff,
+  assignment,
+  matcherVersion: MATCHER_VERSION,
+});
+
+// Candidate builders for the record shapes the services load
+
+/** eLocal row of ringba_call_data (original sync, debug scripts); payout = ringba_revenue */
+export const candidateFromElocalRecord = (call: DatabaseCallRecord): MatchCandidate => ({
+  id: call.id,
+  category: (call.category || 'STATIC') as Category,
+  callerId: call.caller_id,
+  callTime: call.call_timestamp,
+  timeFormat: 'flexible',
+  durationSeconds: null,
+  payout: Number(call.ringba_revenue ?? 0),
+});
+
+/** Ringba call-log call (original sync, debug scripts) */
+export const candidateFromRingbaCall = (call: RingbaCallForSync): MatchCandidate => ({
+  id: call.inboundCallId,
+  category: getCategoryForTarget(call.targetId),
+  callerId: call.callerId,
+  callerIdE164: call.callerIdE164,
+  callTime: call.callDt,
+  timeFormat: 'flexible',
+  durationSeconds: call.callDuration || null,
+  payout: Number(call.payout ?? 0),
+});
+
+/** eLocal call loaded by the cost sync */
+export const candidateFromCostSyncElocal = (call: ElocalCallForCostSync): MatchCandidate => ({
+  id: call.id,
+  category: (call.category || 'STATIC') as Category,
+  callerId: call.caller_id,
+  callTime: call.date_of_call,
+  timeFormat: 'iso',
+  durationSeconds: toDurationSeconds(call.total_duration),
+  payout: Number(call.payout || 0),
+});
+
+/** Ringba call loaded by the cost sync */
+export const candidateFromCostSyncRingba = (call: RingbaCallForCostSync): MatchCandidate => ({
+  id: call.id,
+  category: getCategoryForTarget(call.target_id),
+  callerId: call.caller_id,
+  callerIdE164: call.caller_id_e164,
+  // Ringba call-log times are US Eastern wall clock
+  callTime: call.call_date_time,
+  timeFormat: 'eastern',
+  durationSeconds: toDurationSeconds(call.call_duration),
+  payout: Number(call.payout_amount || 0),
+});
@@ -13,7 +13,7 @@ const formatDateForElocal = (date: Date): string => {
 /**
  * Format date for URL parameters (YYYY-MM-DD)
  */
-const formatDateForURL = (date: Date): string => {
+export const formatDateForURL = (date: Date): string => {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
   const day = String(date.getDate()).padStart(2, '0');
@@ -131,6 +131,29 @@ export const getCustomDateRange = (startDate: Date, endDate: Date): DateRange =>
   };
 };
 
+/**
+ * Split a date range into consecutive chunks of `chunkDays` calendar days (inclusive).
+ * A 60-day range with chunkDays=1 yields 60 single-day ranges.
+ */
+export const splitDateRange = (dateRange: DateRange, chunkDays = 1): DateRange[] => {
+  const size = Math.max(1, Math.floor(chunkDays));
+  const end = new Date(dateRange.endDate);
+  end.setHours(0, 0, 0, 0);
+
+  const chunks: DateRange[] = [];
+  const cursor = new Date(dateRange.startDate);
+  cursor.setHours(0, 0, 0, 0);
+
+  while (cursor <= end) {
+    const chunkEnd = new Date(cursor);
+    chunkEnd.setDate(chunkEnd.getDate() + size - 1);
+    chunks.push(getCustomDateRange(cursor, chunkEnd > end ? end : chunkEnd));
+    cursor.setDate(cursor.getDate() + size);
+  }
+
+  return chunks;
+};
+
 /**
  * Get date range for Ringba sync (IST-aware: before noon IST = previous day, else current day).
  */
@@ -0,0 +1,134 @@
+/**
+ * Runtime validation and mapping of eLocal API v2 call records.
+ *
+ * Every RawApiCall is checked against RAW_CALL_SCHEMA before it is mapped to an ElocalCall.
+ * Records that fail are quarantined (quarantined_elocal_records) with the reasons instead of
+ * being stored with guessed values, so a change in eLocal's payload shape surfaces immediately.
+ */
+import { normalizeDateTime } from './date-normalizer.js';
+import type { Category, ElocalCall, RawApiCall } from '../types/index.js';
+
+type FieldType = 'string' | 'number' | 'date';
+
+interface FieldRule {
+  /** Accepted keys in priority order (eLocal has renamed fields between versions) */
+  keys: Array<keyof RawApiCall>;
+  type: FieldType;
+  required: boolean;
+}
+
+/** Declared shape of a RawApiCall as we consume it */
+export const RAW_CALL_SCHEMA: Record<string, FieldRule> = {
+  elocalCallId: { keys: ['call_id', 'id', 'uuid'], type: 'string', required: false },
+  callerId: { keys: ['caller_phone', 'callerPhoneNumber', 'callerId', 'phone'], type: 'string', required: true },
+  dateOfCall: { keys: ['call_date', 'callStartTime', 'date'], type: 'date', required: true },
+  payout: { keys: ['final_payout', 'payout'], type: 'number', required: true },
+  originalPayout: { keys: ['original_payout'], type: 'number', required: false },
+  originalRevenue: { keys: ['original_revenue'], type: 'number', required: false },
+  duration: { keys: ['call_duration', 'duration', 'callDuration'], type: 'number', required: false },
+  zipCode: { keys: ['zip_code', 'zipCode'], type: 'string', required: false },
+  cityState: { keys: ['cityState'], type: 'string', required: false },
+  campaignPhone: { keys: ['did_phone', 'campaignPhoneNumber'], type: 'string', required: false },
+  classification: { keys: ['classification'], type: 'string', required: false },
+  adjustmentAmount: { keys: ['adjustment_amount'], type: 'number', required: false },
+  adjustmentDate: { keys: ['adjustment_date'], type: 'date', required: false },
+  adjustmentCategory: { keys: ['adjustment_category'], type: 'string', required: false },
+};
+
+export type RawCallValidation =
+  | { valid: true; call: ElocalCall }
+  | { valid: false; reasons: string[] };
+
+const isPresent = (value: unknown): boolean => value !== undefined && value !== null && value !== '';
+
+/** First present value among the rule's keys, with the key it came from */
+const pick = (raw: Record<string, unknown>, rule: FieldRule): { key: string; value: unknown } | null => {
+  for (const key of rule.keys) {
+    if (isPresent(raw[key as string])) return { key: key as string, value: raw[key as string] };
+  }
+  return null;
+};
+
+const checkType = (value: unknown, type: FieldType): boolean => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' || typeof value === 'number';
+    case 'number':
+      return (typeof value === 'number' || typeof value === 'string') && Number.isFinite(Number(value));
+    case 'date':
+      return typeof value === 'string' && normalizeDateTime(value) !== null;
+  }
+};
+
+/**
+ * Validate a raw eLocal record against RAW_CALL_SCHEMA and map it to an ElocalCall.
+ */
+export const validateRawApiCall = (raw: unknown, category: Category): RawCallValidation => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, reasons: ['record is not an object'] };
+  }
+
+  const record = raw as Record<string, unknown>;
+  const reasons: string[] = [];
+  const values: Record<string, unknown> = {};
+
+  for (const [field, rule] of Object.entries(RAW_CALL_SCHEMA)) {
+    const found = pick(record, rule);
+    if (!found) {
+      if (rule.required) reasons.push(`missing ${field} (expected one of: ${rule.keys.join(', ')})`);
+      continue;
+    }
+    if (!checkType(found.value, rule.type)) {
+      reasons.push(`invalid ${field}: ${found.key}=${JSON.stringify(found.value)} is not a valid ${rule.type}`);
+      continue;
+    }
+    values[field] = found.value;
+  }
+
+  if (reasons.length > 0) {
+    return { valid: false, reasons };
+  }
+
+  const num = (field: string): number | null => (values[field] !== undefined ? Number(values[field]) : null);
+  const str = (field: string): string | null => (values[field] !== undefined ? String(values[field]) : null);
+
+  return {
+    valid: true,
+    call: {
+      elocalCallId: str('elocalCallId'),
+      callerId: String(values.callerId),
+      dateOfCall: String(values.dateOfCall),
+      elocalPayout: Number(values.payout),
+      ringbaOriginalPayout: num('originalPayout'),
+      ringbaOriginalRevenue: num('originalRevenue'),
+      category,
+      cityState: str('cityState'),
+      zipCode: str('zipCode'),
+      campaignPhone: str('campaignPhone'),
+      classification: str('classification'),
+      totalDuration: num('duration'),
+      adjustmentTime: str('adjustmentDate') ?? undefined,
+      adjustmentAmount: num('adjustmentAmount') ?? undefined,
+      adjustmentCategory: str('adjustmentCategory'),
+    },
+  };
+};
+
+/**
+ * Split a batch of raw records into mapped calls and rejected records with reasons.
+ */
+export const partitionRawApiCalls = (
+  rawCalls: unknown[],
+  category: Category
+): { calls: ElocalCall[]; rejected: Array<{ raw: unknown; reasons: string[] }> } => {
+  const calls: ElocalCall[] = [];
+  const rejected: Array<{ raw: unknown; reasons: string[] }> = [];
+
+  for (const raw of rawCalls) {
+    const result = validateRawApiCall(raw, category);
+    if (result.valid) calls.push(result.call);
+    else rejected.push({ raw, reasons: result.reasons });
+  }
+
+  return { calls, rejected };
+};
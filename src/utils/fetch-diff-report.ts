@@ -0,0 +1,84 @@
+/**
+ * Summaries and diff files for dry runs of the eLocal fetch.
+ */
+import { writeFileSync } from 'fs';
+import type { ElocalCallDiff, ElocalFetchDiffSummary } from '../types/index.js';
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+const csvCell = (value: unknown): string => {
+  const s = formatValue(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/**
+ * Count inserts/updates/unchanged rows and how often each field would change.
+ */
+export const summarizeFetchDiff = (diffs: ElocalCallDiff[]): ElocalFetchDiffSummary => {
+  const fieldChanges: Record<string, number> = {};
+  for (const diff of diffs) {
+    for (const change of diff.changes) {
+      fieldChanges[change.field] = (fieldChanges[change.field] || 0) + 1;
+    }
+  }
+  return {
+    inserts: diffs.filter((d) => d.action === 'insert').length,
+    updates: diffs.filter((d) => d.action === 'update').length,
+    unchanged: diffs.filter((d) => d.action === 'unchanged').length,
+    fieldChanges,
+    diffs,
+  };
+};
+
+/**
+ * Print a dry-run summary with a sample of the field changes.
+ */
+export const printFetchDiffSummary = (summary: ElocalFetchDiffSummary, sampleSize = 20): void => {
+  console.log('');
+  console.log('[DRY RUN] No changes were written.');
+  console.log(`[DRY RUN] Would insert: ${summary.inserts}`);
+  console.log(`[DRY RUN] Would update: ${summary.updates}`);
+  console.log(`[DRY RUN] Unchanged:    ${summary.unchanged}`);
+  for (const [field, count] of Object.entries(summary.fieldChanges)) {
+    console.log(`[DRY RUN]   ${field}: ${count} row(s)`);
+  }
+
+  const updates = summary.diffs.filter((d) => d.action === 'update');
+  updates.slice(0, sampleSize).forEach((d) => {
+    const changes = d.changes
+      .map((c) => `${c.field}: ${formatValue(c.oldValue) || '∅'} → ${formatValue(c.newValue) || '∅'}`)
+      .join(', ');
+    console.log(`[DRY RUN]   #${d.callId} ${d.callerId} @ ${d.callTimestamp}: ${changes}`);
+  });
+  if (updates.length > sampleSize) {
+    console.log(`[DRY RUN]   ... and ${updates.length - sampleSize} more update(s)`);
+  }
+};
+
+/**
+ * Write the diff to a file: CSV (one line per changed field) when the path ends in .csv, otherwise JSON.
+ */
+export const writeFetchDiffFile = (path: string, diffs: ElocalCallDiff[]): void => {
+  if (!path.toLowerCase().endsWith('.csv')) {
+    writeFileSync(path, JSON.stringify(diffs, null, 2), 'utf-8');
+    return;
+  }
+
+  const header = ['action', 'call_id', 'caller_id', 'call_timestamp', 'category', 'field', 'old_value', 'new_value'];
+  const lines = [header.join(',')];
+  for (const d of diffs) {
+    const base = [d.action, d.callId, d.callerId, d.callTimestamp, d.category];
+    if (d.changes.length === 0) {
+      lines.push([...base, '', '', ''].map(csvCell).join(','));
+      continue;
+    }
+    for (const c of d.changes) {
+      lines.push([...base, c.field, c.oldValue, c.newValue].map(csvCell).join(','));
+    }
+  }
+  writeFileSync(path, lines.join('\n') + '\n', 'utf-8');
+};
@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import { normalizeDateTime } from './date-normalizer.js';
 import type { Session, ElocalCall, AdjustmentDetail } from '../types/index.js';
 
@@ -15,23 +16,84 @@ export const createSession = (): Session => {
 };
 
 /**
- * Process raw campaign calls - deduplicate and normalize
+ * Bump when the way fetched records are processed or stored changes, so every watermarked
+ * day is written once more with the new logic instead of being skipped as unchanged.
+ */
+const RESULT_SET_HASH_VERSION = 'v1';
+
+/** JSON with object keys sorted, so equal records always serialize the same way */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Hash of a fetched result set for sync_watermarks. Independent of record order and key order.
+ */
+export const hashResultSet = (records: unknown[]): string => {
+  const hash = createHash('sha256').update(RESULT_SET_HASH_VERSION);
+  records
+    .map(canonicalJson)
+    .sort()
+    .forEach((r) => hash.update('\n').update(r));
+  return hash.digest('hex');
+};
+
+/**
+ * Watermarks are on unless disabled by config or SYNC_WATERMARKS=false.
+ */
+export const watermarksEnabled = (configured?: boolean): boolean =>
+  configured ?? process.env.SYNC_WATERMARKS !== 'false';
+
+/**
+ * Deterministic fingerprint for an eLocal call without an eLocal call id:
+ * category + caller (last 10 digits) + normalized call time. Payout and duration are left out
+ * because eLocal revises them after the fact.
+ */
+export const callFingerprint = (call: Pick<ElocalCall, 'category' | 'callerId' | 'dateOfCall'>): string => {
+  const digits = String(call.callerId || '').replace(/\D/g, '').slice(-10);
+  return createHash('sha1')
+    .update(`${call.category || 'STATIC'}|${digits}|${call.dateOfCall}`)
+    .digest('hex')
+    .slice(0, 24);
+};
+
+/**
+ * Order for calls sharing a fingerprint, from attributes eLocal does not revise (not duration or
+ * payout, which would swap keys between rows on a refetch). Ties keep API order (stable sort).
+ */
+const compareSameFingerprint = (a: ElocalCall, b: ElocalCall): number =>
+  String(a.zipCode ?? '').localeCompare(String(b.zipCode ?? '')) ||
+  String(a.cityState ?? '').localeCompare(String(b.cityState ?? '')) ||
+  String(a.campaignPhone ?? '').localeCompare(String(b.campaignPhone ?? ''));
+
+/**
+ * Process raw campaign calls - normalize, assign a stable identity (callKey) and deduplicate.
+ *
+ * callKey is 'elocal:<id>' when eLocal returns a call id. Otherwise it is 'fp:<fingerprint>:<n>',
+ * where n numbers calls that share a fingerprint (same caller, same second) in a fixed order,
+ * so refetching a day always yields the same keys and call timestamps are stored unchanged.
  */
 export const processCampaignCalls = (rawCalls: ElocalCall[]): ElocalCall[] => {
   if (!rawCalls || rawCalls.length === 0) {
     return [];
   }
 
-  // Deduplicate based on callerId, dateOfCall (full timestamp), and category
-  const seen = new Map<string, boolean>();
-  const processed: ElocalCall[] = [];
-  const timestampCounts = new Map<string, number>();
-
   console.log(`[INFO] Processing ${rawCalls.length} raw calls for deduplication...`);
 
+  const seenIds = new Set<string>();
+  const withId: ElocalCall[] = [];
+  const byFingerprint = new Map<string, ElocalCall[]>();
+
   for (const call of rawCalls) {
     // Normalize date+time to ISO format
-    let normalizedDateTime = normalizeDateTime(call.dateOfCall) || call.dateOfCall || '';
+    const normalizedDateTime = normalizeDateTime(call.dateOfCall) || call.dateOfCall || '';
 
     if (!normalizedDateTime) {
       console.warn(
@@ -40,47 +102,46 @@ export const processCampaignCalls = (rawCalls: ElocalCall[]): ElocalCall[] => {
       continue;
     }
 
-    // Handle duplicate timestamps by adding sequence
-    const baseKey = `${call.callerId}|${normalizedDateTime}|${call.category || 'STATIC'}`;
-    let count = timestampCounts.get(baseKey) || 0;
-
-    if (count > 0) {
-      // Add sequence as seconds offset
-      const [datePart, timePart] = normalizedDateTime.split('T');
-      if (timePart) {
-        const [hours, minutes, seconds] = timePart.split(':');
-        const newSeconds = String((parseInt(seconds || '0', 10) + count) % 60).padStart(2, '0');
-        normalizedDateTime = `${datePart}T${hours}:${minutes}:${newSeconds}`;
+    const processedCall: ElocalCall = {
+      elocalCallId: call.elocalCallId ?? null,
+      callerId: call.callerId || '',
+      dateOfCall: normalizedDateTime,
+      elocalPayout: Number(call.elocalPayout ?? 0) || 0,
+      ringbaOriginalPayout: call.ringbaOriginalPayout ?? null,
+      ringbaOriginalRevenue: call.ringbaOriginalRevenue ?? null,
+      category: call.category || 'STATIC',
+      cityState: call.cityState || null,
+      zipCode: call.zipCode || null,
+      totalDuration: call.totalDuration ?? null,
+      adjustmentTime: call.adjustmentTime ?? undefined,
+      adjustmentAmount: call.adjustmentAmount ?? undefined,
+      adjustmentCategory: call.adjustmentCategory ?? null,
+      classification: call.classification ?? null,
+      campaignPhone: call.campaignPhone ?? null,
+    };
+
+    if (processedCall.elocalCallId) {
+      const callKey = `elocal:${processedCall.elocalCallId}`;
+      if (seenIds.has(callKey)) {
+        console.warn(`[WARN] Duplicate call skipped: eLocal call ${processedCall.elocalCallId}`);
+        continue;
       }
+      seenIds.add(callKey);
+      withId.push({ ...processedCall, callKey });
+      continue;
     }
 
-    timestampCounts.set(baseKey, count + 1);
-
-    const key = `${call.callerId}|${normalizedDateTime}|${call.category || 'STATIC'}`;
-
-    if (!seen.has(key)) {
-      seen.set(key, true);
-
-      const processedCall: ElocalCall = {
-        callerId: call.callerId || '',
-        dateOfCall: normalizedDateTime,
-        elocalPayout: Number(call.elocalPayout ?? 0) || 0,
-        ringbaOriginalPayout: call.ringbaOriginalPayout ?? null,
-        ringbaOriginalRevenue: call.ringbaOriginalRevenue ?? null,
-        category: call.category || 'STATIC',
-        cityState: call.cityState || null,
-        zipCode: call.zipCode || null,
-        totalDuration: call.totalDuration ?? null,
-        adjustmentTime: call.adjustmentTime ?? undefined,
-        adjustmentAmount: call.adjustmentAmount ?? undefined,
-      };
-
-      processed.push(processedCall);
-    } else {
-      console.warn(
-        `[WARN] Duplicate call skipped: ${call.callerId} at ${normalizedDateTime} (category: ${call.category || 'STATIC'})`
-      );
-    }
+    const fingerprint = callFingerprint(processedCall);
+    const group = byFingerprint.get(fingerprint) ?? [];
+    group.push(processedCall);
+    byFingerprint.set(fingerprint, group);
+  }
+
+  const processed = [...withId];
+  for (const [fingerprint, group] of byFingerprint) {
+    group
+      .sort(compareSameFingerprint)
+      .forEach((call, n) => processed.push({ ...call, callKey: `fp:${fingerprint}:${n}` }));
   }
 
   console.log(
@@ -93,6 +154,34 @@ export const processCampaignCalls = (rawCalls: ElocalCall[]): ElocalCall[] => {
   return processed;
 };
 
+/**
+ * Classify an eLocal adjustment: eLocal's adjustment_category when given,
+ * otherwise by direction of the amount.
+ */
+export const classifyAdjustment = (amount: number, adjustmentCategory?: string | null): string => {
+  const category = adjustmentCategory?.trim();
+  if (category) return category;
+  return amount < 0 ? 'Deduction' : 'Credit';
+};
+
+/**
+ * Build raw adjustment rows (input for processAdjustmentDetails) from the adjustment
+ * fields carried on processed eLocal calls. Calls without a non-zero adjustment are skipped.
+ */
+export const extractCallAdjustments = (calls: ElocalCall[]): any[] =>
+  calls
+    .filter((call) => call.adjustmentAmount != null && call.adjustmentAmount !== 0)
+    .map((call) => ({
+      callerId: call.callerId,
+      timeOfCall: call.dateOfCall,
+      adjustmentTime: call.adjustmentTime,
+      campaignPhone: call.campaignPhone,
+      amount: call.adjustmentAmount,
+      duration: call.totalDuration ?? 0,
+      callSid: null,
+      classification: classifyAdjustment(Number(call.adjustmentAmount), call.adjustmentCategory),
+    }));
+
 /**
  * Process adjustment details - normalize and validate
  */
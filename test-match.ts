@@ -1,61 +1,36 @@
 import { createNeonClient } from './src/config/database.js';
 import dotenv from 'dotenv';
 import { join } from 'path';
-import { getCategoryFromTargetId } from './src/http/ringba-client.js';
+import { decideMatch, getMatchProfile, toDurationSeconds } from './src/utils/call-matching.js';
+import { getCategoryForTarget } from './src/config/campaign-registry.js';
 
 dotenv.config({ path: join(process.cwd(), '.env') });
 dotenv.config({ path: join(process.cwd(), '.env.neon') });
 
-// The exact logic from parseDate
-const parseDate = (dateRaw: any, isElocalEST = false): Date | null => {
-  if (!dateRaw) return null;
-  const d = new Date(dateRaw);
-  if (isNaN(d.getTime())) return null;
-  return d;
-};
-
-// Simplified matcher just for debugging one call
+// One call through the cost sync matcher, printing the decision (reason code + details on rejection)
 const testMatchCall = (elocalCall: any, ringbaCall: any) => {
   console.log('--- Matching ---');
-  let reason = '';
-  
-  const ringbaCategory = getCategoryFromTargetId(ringbaCall.target_id);
-  const elocalCategory = elocalCall.category || 'STATIC';
-  console.log(`1. Category: eLocal=${elocalCategory}, Ringba=${ringbaCategory}`);
-  if (ringbaCategory !== elocalCategory) { reason = 'Category mismatch'; return { match: false, reason }; }
-
-  const elocalCallerE164 = elocalCall.caller_id;
-  const ringbaCallerE164 = ringbaCall.caller_id_e164;
-  console.log(`2. Caller: eLocal=${elocalCallerE164}, Ringba=${ringbaCallerE164}`);
-  if (elocalCallerE164 !== ringbaCallerE164) { reason = 'Caller mismatch'; return { match: false, reason }; }
-
-  const elocalDate = parseDate(elocalCall.date_of_call, true); 
-  const ringbaDate = parseDate(ringbaCall.call_date_time, false);
-  console.log(`3. Dates: eLocal=${elocalDate?.toISOString()}, Ringba=${ringbaDate?.toISOString()}`);
-  if (!elocalDate || !ringbaDate) { reason = 'Invalid dates'; return { match: false, reason }; }
-
-  const elocalDateStr = elocalDate.toISOString().split('T')[0];
-  const ringbaDateStr = ringbaDate.toISOString().split('T')[0];
-  const elocalDateOnly = new Date(elocalDateStr);
-  const ringbaDateOnly = new Date(ringbaDateStr);
-  const daysDiff = Math.abs((elocalDateOnly.getTime() - ringbaDateOnly.getTime()) / (1000 * 60 * 60 * 24));
-  console.log(`4. Days Diff: ${daysDiff}`);
-  if (daysDiff > 1) { reason = 'Days diff > 1'; return { match: false, reason }; }
-
-  const timeDiff = Math.abs(elocalDate.getTime() - ringbaDate.getTime()) / (1000 * 60);
-  const effectiveWindow = daysDiff === 0 ? 30 : (24 * 60);
-  console.log(`5. Time Diff: ${timeDiff} minutes (Window: ${effectiveWindow})`);
-  if (timeDiff > effectiveWindow) { reason = 'Time diff too large'; return { match: false, reason }; }
-
-  const elocalDuration = Number(elocalCall.elocal_duration || 0);
-  const ringbaDuration = Number(ringbaCall.ringba_duration || 0);
-  const durationDiff = Math.abs(elocalDuration - ringbaDuration);
-  console.log(`6. Duration: eLocal=${elocalDuration}, Ringba=${ringbaDuration}, Diff=${durationDiff}`);
-  if (elocalDuration > 0 && ringbaDuration > 0 && durationDiff > 30) {
-    reason = 'Duration mismatch'; return { match: false, reason }; 
-  }
-
-  return { match: true, reason: 'Matched perfectly!' };
+  const category = elocalCall.category || 'STATIC';
+  return decideMatch(
+    {
+      id: elocalCall.id,
+      category,
+      callerId: elocalCall.caller_id,
+      callTime: elocalCall.date_of_call,
+      durationSeconds: toDurationSeconds(elocalCall.elocal_duration),
+      payout: null,
+    },
+    {
+      id: ringbaCall.id,
+      category: getCategoryForTarget(ringbaCall.target_id),
+      callerId: ringbaCall.caller_id_e164,
+      callTime: ringbaCall.call_date_time,
+      timeFormat: 'eastern',
+      durationSeconds: toDurationSeconds(ringbaCall.ringba_duration),
+      payout: null,
+    },
+    getMatchProfile('cost_sync', category)
+  );
 };
 
 async function main() {